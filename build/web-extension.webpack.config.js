@@ -44,6 +44,11 @@ module.exports = /** @type WebpackConfig */ {
 	externals: {
 		'vscode': 'commonjs vscode', // ignored because it doesn't exist
 	},
+	node: {
+		// the browser can neither start a runtime process nor open sockets, programs run on the embedded runtime
+		child_process: 'empty',
+		net: 'empty',
+	},
 	performance: {
 		hints: false
 	},
@@ -8,25 +8,22 @@ import * as vscode from 'vscode';
 import { WorkspaceFolder, DebugConfiguration, ProviderResult, CancellationToken } from 'vscode';
 import { DebugSession } from './debugSession';
 import { FileAccessor } from './runtimeClient';
+import { formatProfileReport, ProfileSummary } from './executionProfile';
+import { CoverageSummary, formatJsonSummary, formatLcov } from './lineCoverage';
 
 export function activateDebugger(context: vscode.ExtensionContext, factory?: vscode.DebugAdapterDescriptorFactory) {
 
+	const profileDecorations = new ProfileDecorations();
+	const coverageDecorations = new CoverageDecorations();
+	// errors the runtime found when loading a program, they stay until the program is edited
+	const loadErrors = vscode.languages.createDiagnosticCollection('misc-runtime');
+	// the coverage reported at the latest stop by debug session id, written to the workspace when the session ends
+	const sessionCoverage = new Map<string, CoverageSummary>();
+	context.subscriptions.push(profileDecorations, coverageDecorations, loadErrors);
+
 	context.subscriptions.push(
 		vscode.commands.registerCommand('extension.mock-debug.runEditorContents', (resource: vscode.Uri) => {
-			let targetResource = resource;
-			if (!targetResource && vscode.window.activeTextEditor) {
-				targetResource = vscode.window.activeTextEditor.document.uri;
-			}
-			if (targetResource) {
-				vscode.debug.startDebugging(undefined, {
-						type: 'mock',
-						name: 'Run File',
-						request: 'launch',
-						program: targetResource.fsPath
-					},
-					{ noDebug: true }
-				);
-			}
+			runEditorContents(resource, 'Run File');
 		}),
 		vscode.commands.registerCommand('extension.mock-debug.debugEditorContents', (resource: vscode.Uri) => {
 			let targetResource = resource;
@@ -43,18 +40,99 @@ export function activateDebugger(context: vscode.ExtensionContext, factory?: vsc
 				});
 			}
 		}),
+		vscode.commands.registerCommand('extension.mock-debug.profileEditorContents', (resource: vscode.Uri) => {
+			runEditorContents(resource, 'Profile File', { profile: true });
+		}),
+		vscode.commands.registerCommand('extension.mock-debug.coverageEditorContents', (resource: vscode.Uri) => {
+			runEditorContents(resource, 'Run File with Coverage', { coverage: true });
+		}),
 		vscode.commands.registerCommand('extension.mock-debug.toggleFormatting', (variable) => {
 			const ds = vscode.debug.activeDebugSession;
 			if (ds) {
-				ds.customRequest('toggleFormatting');
+				// from the Variables view 'variable' holds the clicked variable, from the command palette it is undefined
+				ds.customRequest('toggleFormatting', variable);
+			}
+		}),
+		vscode.commands.registerCommand('extension.mock-debug.toggleTraceRecording', async () => {
+			const ds = vscode.debug.activeDebugSession;
+			if (ds) {
+				const { recording } = await ds.customRequest('recordTrace');
+				vscode.window.showInformationMessage(recording ? 'Recording execution trace.' : 'Stopped recording execution trace.');
+			}
+		}),
+		vscode.commands.registerCommand('extension.mock-debug.exportTrace', async () => {
+			const ds = vscode.debug.activeDebugSession;
+			if (!ds) {
+				return;
+			}
+
+			// the file extension selects the format
+			const filters: { [name: string]: string[] } = {};
+			filters['JSON Lines'] = ['jsonl'];
+			filters['CSV'] = ['csv'];
+
+			const uri = await vscode.window.showSaveDialog({ filters, saveLabel: 'Export Trace' });
+			if (uri) {
+				const format = uri.path.toLowerCase().endsWith('.csv') ? 'csv' : 'jsonl';
+				const { content, instructions } = await ds.customRequest('exportTrace', { format });
+				await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+				vscode.window.showInformationMessage(`Exported ${instructions} instructions to ${uri.fsPath}.`);
+			}
+		}),
+		vscode.commands.registerCommand('extension.mock-debug.writeProfileReport', async () => {
+			const profile = profileDecorations.latestProfile;
+			if (!profile) {
+				vscode.window.showInformationMessage('No profile yet, run a program with \'Profile File\' first.');
+				return;
+			}
+
+			// 'fib.misc' is reported in 'fib.profile.md' next to it
+			const program = programUri(profile.program);
+			const uri = program.with({ path: program.path.replace(/(\.[^./]*)?$/, '.profile.md') });
+			const source = (await vscode.workspace.openTextDocument(program)).getText();
+			await vscode.workspace.fs.writeFile(uri, Buffer.from(formatProfileReport(profile, source), 'utf8'));
+			await vscode.window.showTextDocument(uri);
+		}),
+		vscode.commands.registerCommand('extension.mock-debug.clearProfile', () => {
+			profileDecorations.clear();
+		}),
+		vscode.commands.registerCommand('extension.mock-debug.clearCoverage', () => {
+			coverageDecorations.clear();
+		}),
+		vscode.debug.onDidReceiveDebugSessionCustomEvent(e => {
+			if (e.session.type === 'mock' && e.event === 'profile') {
+				profileDecorations.update(e.body);
 			}
-		})
+			if (e.session.type === 'mock' && e.event === 'coverage') {
+				coverageDecorations.update(e.body);
+				sessionCoverage.set(e.session.id, e.body);
+			}
+			if (e.session.type === 'mock' && e.event === 'loadError') {
+				const position = new vscode.Position(e.body.line - 1, e.body.column - 1);
+				const diagnostic = new vscode.Diagnostic(new vscode.Range(position, position), e.body.message, vscode.DiagnosticSeverity.Error);
+				diagnostic.source = 'MISC runtime';
+				loadErrors.set(programUri(e.body.program), [diagnostic]);
+			}
+		}),
+		vscode.debug.onDidTerminateDebugSession(async session => {
+			const coverage = sessionCoverage.get(session.id);
+			sessionCoverage.delete(session.id);
+
+			if (coverage) {
+				try {
+					await writeCoverage(coverage);
+				} catch (e) {
+					vscode.window.showErrorMessage(`Cannot write the coverage report: ${e.message}`);
+				}
+			}
+		}),
+		vscode.workspace.onDidChangeTextDocument(e => loadErrors.delete(e.document.uri))
 	);
 
 	context.subscriptions.push(vscode.commands.registerCommand('extension.mock-debug.getProgramName', config => {
 		return vscode.window.showInputBox({
-			placeHolder: "Please enter the name of a markdown file in the workspace folder",
-			value: "readme.md"
+			placeHolder: "Please enter the name of a MISC program in the workspace folder",
+			value: "fib.misc"
 		});
 	}));
 
@@ -97,19 +175,25 @@ export function activateDebugger(context: vscode.ExtensionContext, factory?: vsc
 	}
 
 	// override VS Code's default implementation of the debug hover
-	// here we match only Mock "variables", that are words starting with an '$' 
-	context.subscriptions.push(vscode.languages.registerEvaluatableExpressionProvider('markdown', {
+	// here we match only MISC registers, that are words like 'R1' outside of comments
+	context.subscriptions.push(vscode.languages.registerEvaluatableExpressionProvider('misc', {
 		provideEvaluatableExpression(document: vscode.TextDocument, position: vscode.Position): vscode.ProviderResult<vscode.EvaluatableExpression> {
 
-			const VARIABLE_REGEXP = /\$[a-z][a-z0-9]*/ig;
-			const line = document.lineAt(position.line).text;
-			
-			let m: RegExpExecArray | null;
-			while (m = VARIABLE_REGEXP.exec(line)) {
-				const varRange = new vscode.Range(position.line, m.index, position.line, m.index + m[0].length);
+			for (const register of findRegisters(document.lineAt(position.line))) {
+				if (register.range.contains(position)) {
+					// the Variables view lists registers in upper case
+					return new vscode.EvaluatableExpression(register.range, register.name);
+				}
+			}
 
-				if (varRange.contains(position)) {
-					return new vscode.EvaluatableExpression(varRange);
+			// the brackets of a memory operand like '[#1F]' show the memory word
+			const line = document.lineAt(position.line);
+			const MEMORY_REGEXP = /\[[^\]]*\]/g;
+			let m: RegExpExecArray | null;
+			while (m = MEMORY_REGEXP.exec(line.text.split(';')[0])) {
+				const range = new vscode.Range(position.line, m.index, position.line, m.index + m[0].length);
+				if (range.contains(position)) {
+					return new vscode.EvaluatableExpression(range, m[0]);
 				}
 			}
 			return undefined;
@@ -117,31 +201,25 @@ export function activateDebugger(context: vscode.ExtensionContext, factory?: vsc
 	}));
 
 	// override VS Code's default implementation of the "inline values" feature"
-	context.subscriptions.push(vscode.languages.registerInlineValuesProvider('markdown', {
+	// every visible line shows the registers its instruction reads or writes
+	context.subscriptions.push(vscode.languages.registerInlineValuesProvider('misc', {
 
 		provideInlineValues(document: vscode.TextDocument, viewport: vscode.Range, context: vscode.InlineValueContext) : vscode.ProviderResult<vscode.InlineValue[]> {
 
 			const allValues: vscode.InlineValue[] = [];
+			const lastLine = Math.min(viewport.end.line, document.lineCount - 1);
 
-			for (let l = viewport.start.line; l <= context.stoppedLocation.end.line; l++) {
-				const line = document.lineAt(l);
-				var regExp = /\$([a-z][a-z0-9]*)/ig;	// variables are words starting with '$'
-				do {
-					var m = regExp.exec(line.text);
-					if (m) {
-						const varName = m[1];
-						const varRange = new vscode.Range(l, m.index, l, m.index + varName.length);
-
-						// some literal text
-						//allValues.push(new vscode.InlineValueText(varRange, `${varName}: ${viewport.start.line}`));
+			for (let l = viewport.start.line; l <= lastLine; l++) {
+				const names = new Set<string>();
 
-						// value found via variable lookup
-						allValues.push(new vscode.InlineValueVariableLookup(varRange, varName, false));
+				for (const register of findRegisters(document.lineAt(l))) {
+					if (!names.has(register.name)) {
+						names.add(register.name);
 
-						// value determined via expression evaluation
-						//allValues.push(new vscode.InlineValueEvaluatableExpression(varRange, varName));
+						// value found via lookup in the variables returned by the runtime
+						allValues.push(new vscode.InlineValueVariableLookup(register.range, register.name, false));
 					}
-				} while (m);
+				}
 			}
 
 			return allValues;
@@ -149,6 +227,26 @@ export function activateDebugger(context: vscode.ExtensionContext, factory?: vsc
 	}));
 }
 
+/**
+ * Finds the register operands of the instruction on a line.
+ * Labels and comments are skipped.
+ */
+function findRegisters(line: vscode.TextLine): { name: string, range: vscode.Range }[] {
+	const REGISTER_REGEXP = /\bR[0-9]+\b/ig;
+	const code = line.text.split(';')[0];
+	const start = code.indexOf(':') + 1;	// operands always follow an optional 'label:'
+	const registers: { name: string, range: vscode.Range }[] = [];
+
+	let m: RegExpExecArray | null;
+	while (m = REGISTER_REGEXP.exec(code)) {
+		const name = m[0].toUpperCase();
+		if (m.index >= start) {
+			registers.push({ name, range: new vscode.Range(line.lineNumber, m.index, line.lineNumber, m.index + m[0].length) });
+		}
+	}
+	return registers;
+}
+
 class ConfigurationProvider implements vscode.DebugConfigurationProvider {
 
 	/**
@@ -160,7 +258,7 @@ class ConfigurationProvider implements vscode.DebugConfigurationProvider {
 		// if launch.json is missing or empty
 		if (!config.type && !config.request && !config.name) {
 			const editor = vscode.window.activeTextEditor;
-			if (editor && editor.document.languageId === 'markdown') {
+			if (editor && editor.document.languageId === 'misc') {
 				config.type = 'mock';
 				config.name = 'Launch';
 				config.request = 'launch';
@@ -179,6 +277,146 @@ class ConfigurationProvider implements vscode.DebugConfigurationProvider {
 	}
 }
 
+/** Runs the program in 'resource' or, from the command palette, in the active editor without debugging. */
+function runEditorContents(resource: vscode.Uri | undefined, name: string, attributes: { [attribute: string]: any } = {}) {
+	const targetResource = resource || vscode.window.activeTextEditor?.document.uri;
+	if (targetResource) {
+		vscode.debug.startDebugging(undefined, {
+				type: 'mock',
+				name,
+				request: 'launch',
+				program: targetResource.fsPath,
+				...attributes
+			},
+			{ noDebug: true }
+		);
+	}
+}
+
+/** Writes 'coverage/lcov.info' and 'coverage/coverage-summary.json' into the workspace folder of the program. */
+async function writeCoverage(coverage: CoverageSummary) {
+	const program = programUri(coverage.program);
+	const folder = vscode.workspace.getWorkspaceFolder(program)?.uri || program.with({ path: program.path.replace(/\/[^/]*$/, '') });
+	const directory = vscode.Uri.joinPath(folder, 'coverage');
+
+	await vscode.workspace.fs.createDirectory(directory);
+	await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(directory, 'lcov.info'), Buffer.from(formatLcov(coverage), 'utf8'));
+	await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(directory, 'coverage-summary.json'), Buffer.from(formatJsonSummary(coverage), 'utf8'));
+}
+
+/** Programs are launched by path, in the browser they can also be URIs (a scheme has more than the one letter of a drive). */
+function programUri(program: string): vscode.Uri {
+	return /^[a-z][a-z0-9+.-]+:/i.test(program) ? vscode.Uri.parse(program) : vscode.Uri.file(program);
+}
+
+/**
+ * Shows how often every line of a profiled program executed at the end of the line.
+ * The counts stay until the program is profiled again or the decorations are cleared.
+ */
+class ProfileDecorations implements vscode.Disposable {
+
+	private decorationType = vscode.window.createTextEditorDecorationType({
+		after: {
+			color: new vscode.ThemeColor('editorCodeLens.foreground'),
+			margin: '0 0 0 3em'
+		}
+	});
+	private profiles = new Map<string, ProfileSummary>();
+	private editorListener = vscode.window.onDidChangeVisibleTextEditors(editors => editors.forEach(editor => this.decorate(editor)));
+
+	public latestProfile: ProfileSummary | undefined;
+
+	public update(profile: ProfileSummary) {
+		this.latestProfile = profile;
+		this.profiles.set(programUri(profile.program).toString(), profile);
+		vscode.window.visibleTextEditors.forEach(editor => this.decorate(editor));
+	}
+
+	public clear() {
+		this.latestProfile = undefined;
+		this.profiles.clear();
+		vscode.window.visibleTextEditors.forEach(editor => editor.setDecorations(this.decorationType, []));
+	}
+
+	public dispose() {
+		this.editorListener.dispose();
+		this.decorationType.dispose();
+	}
+
+	private decorate(editor: vscode.TextEditor) {
+		const profile = this.profiles.get(editor.document.uri.toString());
+		if (!profile) {
+			return;
+		}
+
+		const decorations = profile.lines.filter(line => line.line <= editor.document.lineCount).map(line => {
+			const share = profile.instructions ? (100 * line.executions / profile.instructions).toFixed(1) : '0.0';
+			const cycles = line.cycles !== undefined ? `, ${line.cycles} cycles` : '';
+			const end = editor.document.lineAt(line.line - 1).range.end;
+
+			return <vscode.DecorationOptions>{
+				range: new vscode.Range(end, end),
+				hoverMessage: `Executed ${line.executions} times, ${share}% of all instructions${cycles}`,
+				renderOptions: { after: { contentText: `${line.executions}×${cycles}` } }
+			};
+		});
+		editor.setDecorations(this.decorationType, decorations);
+	}
+}
+
+/**
+ * Highlights the lines of a program that executed in the last coverage run and the ones that did not.
+ * Lines without an instruction are left alone.
+ */
+class CoverageDecorations implements vscode.Disposable {
+
+	private coveredType = vscode.window.createTextEditorDecorationType({
+		isWholeLine: true,
+		backgroundColor: new vscode.ThemeColor('diffEditor.insertedTextBackground'),
+		overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.addedForeground'),
+		overviewRulerLane: vscode.OverviewRulerLane.Left
+	});
+	private uncoveredType = vscode.window.createTextEditorDecorationType({
+		isWholeLine: true,
+		backgroundColor: new vscode.ThemeColor('diffEditor.removedTextBackground'),
+		overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.deletedForeground'),
+		overviewRulerLane: vscode.OverviewRulerLane.Left
+	});
+	private coverages = new Map<string, CoverageSummary>();
+	private editorListener = vscode.window.onDidChangeVisibleTextEditors(editors => editors.forEach(editor => this.decorate(editor)));
+
+	public update(coverage: CoverageSummary) {
+		this.coverages.set(programUri(coverage.program).toString(), coverage);
+		vscode.window.visibleTextEditors.forEach(editor => this.decorate(editor));
+	}
+
+	public clear() {
+		this.coverages.clear();
+		vscode.window.visibleTextEditors.forEach(editor => {
+			editor.setDecorations(this.coveredType, []);
+			editor.setDecorations(this.uncoveredType, []);
+		});
+	}
+
+	public dispose() {
+		this.editorListener.dispose();
+		this.coveredType.dispose();
+		this.uncoveredType.dispose();
+	}
+
+	private decorate(editor: vscode.TextEditor) {
+		const coverage = this.coverages.get(editor.document.uri.toString());
+		if (!coverage) {
+			return;
+		}
+
+		const lines = coverage.lines.filter(line => line.line <= editor.document.lineCount);
+		const range = (line: number) => editor.document.lineAt(line - 1).range;
+		editor.setDecorations(this.coveredType, lines.filter(line => line.hits > 0).map(line => ({ range: range(line.line), hoverMessage: `Executed ${line.hits} times` })));
+		editor.setDecorations(this.uncoveredType, lines.filter(line => line.hits === 0).map(line => ({ range: range(line.line), hoverMessage: 'Not executed' })));
+	}
+}
+
 export const workspaceFileAccessor: FileAccessor = {
 	async readFile(path: string) {
 		try {
@@ -193,7 +431,8 @@ export const workspaceFileAccessor: FileAccessor = {
 				const contents = Buffer.from(bytes).toString('utf8');
 				return contents;
 			} catch (e) {
-				return `cannot read '${path}'`;
+				// the debug adapter reports programs that cannot be read
+				throw e;
 			}
 		}
 	}
@@ -0,0 +1,102 @@
+/**
+ * Conditions, hit conditions and log messages of source breakpoints.
+ * They are evaluated in the debug adapter whenever the runtime stops on a breakpoint,
+ * so every runtime supports them as long as it reports register values and reads memory.
+ */
+
+import { evaluateExpression, ExpressionContext, formatValue } from './miscExpression';
+
+export interface BreakpointConditions {
+	/** an expression like 'R3 == 0', the breakpoint stops if it is not 0 */
+	condition?: string;
+	/** e.g. '5', '>= 5' or '% 10' */
+	hitCondition?: string;
+	/** e.g. 'R1 is {R1}' or 'top of stack {[SP],h}' */
+	logMessage?: string;
+	/** how often the breakpoint was reached */
+	hits: number;
+}
+
+export interface BreakpointDecision {
+	stop: boolean;
+	/** interpolated log message to print */
+	log?: string;
+	/** problem with a condition, the breakpoint stops so the user notices */
+	error?: string;
+}
+
+const HIT_CONDITION_REGEXP = /^\s*(==|>=|>|<=|<|%)?\s*(\d+)\s*$/;
+
+/**
+ * Counts the hit and decides whether the runtime should stay stopped.
+ * A breakpoint stops if its hit condition and its condition are met, unless it is a logpoint.
+ * Running backwards reaches the breakpoint where it was already counted, so 'countHit' is false then.
+ */
+export async function decideBreakpoint(conditions: BreakpointConditions, context: ExpressionContext, countHit = true): Promise<BreakpointDecision> {
+	if (countHit) {
+		conditions.hits++;
+	}
+
+	if (conditions.hitCondition) {
+		const hitConditionMet = checkHitCondition(conditions.hitCondition, conditions.hits);
+		if (typeof hitConditionMet === 'string') {
+			return { stop: true, error: hitConditionMet };
+		}
+		if (!hitConditionMet) {
+			return { stop: false };
+		}
+	}
+
+	if (conditions.condition) {
+		const conditionMet = await evaluateCondition(conditions.condition, context);
+		if (typeof conditionMet === 'string') {
+			return { stop: true, error: conditionMet };
+		}
+		if (!conditionMet) {
+			return { stop: false };
+		}
+	}
+
+	if (conditions.logMessage) {
+		return { stop: false, log: await interpolateLogMessage(conditions.logMessage, context) };
+	}
+
+	return { stop: true };
+}
+
+/** Returns whether the hit condition is met or an error message. */
+export function checkHitCondition(hitCondition: string, hits: number): boolean | string {
+	const match = HIT_CONDITION_REGEXP.exec(hitCondition);
+	if (!match) {
+		return `Invalid hit condition '${hitCondition}'`;
+	}
+
+	const count = parseInt(match[2], 10);
+	switch (match[1]) {
+		case '>=': return hits >= count;
+		case '>': return hits > count;
+		case '<=': return hits <= count;
+		case '<': return hits < count;
+		case '%': return count > 0 && hits % count === 0;
+		default: return hits === count;
+	}
+}
+
+/** Returns whether the condition holds or an error message. */
+export async function evaluateCondition(condition: string, context: ExpressionContext): Promise<boolean | string> {
+	const result = await evaluateExpression(condition, context);
+	return typeof result === 'string' ? result : result.value !== 0;
+}
+
+/** Replaces every '{expression}' with the value of the expression, expressions that cannot be evaluated are kept. */
+export async function interpolateLogMessage(logMessage: string, context: ExpressionContext): Promise<string> {
+	const parts = logMessage.split(/(\{[^}]*\})/);
+
+	for (let i = 1; i < parts.length; i += 2) {
+		const result = await evaluateExpression(parts[i].slice(1, -1), context);
+		if (typeof result !== 'string') {
+			parts[i] = formatValue(result.value, result.format);
+		}
+	}
+	return parts.join('');
+}
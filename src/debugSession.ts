@@ -4,11 +4,19 @@
 
 
 import { DebugProtocol } from 'vscode-debugprotocol';
-// import { basename } from 'path';
-import { FileAccessor, RuntimeClient, RuntimeBreakpoint } from './runtimeClient';
+// import { basename, dirname } from 'path';
+import { assemble, INSTRUCTION_SIZE, MEMORY_SIZE, MiscProgram, OPERAND_KINDS, parseValue, REGISTER_COUNT } from './miscMachine';
+import { FileAccessor, RuntimeClient, RuntimeFailure, RuntimeStackframe, RuntimeVariable, defaultTransportFactory, DEFAULT_REQUEST_TIMEOUT, DEFAULT_RETRY_POLICY } from './runtimeClient';
+import { RuntimeCancellation, RuntimeDataAccess, RuntimeRetryPolicy, RuntimeTransportFactory } from './runtimeTransport';
+import { BreakpointConditions, decideBreakpoint } from './breakpointConditions';
+import { ManagedBreakpoint, SourceBreakpoints } from './sourceBreakpoints';
+import { ExecutionTrace, TraceFormat } from './executionTrace';
+import { ExecutionProfile } from './executionProfile';
+import { LineCoverage } from './lineCoverage';
+import { evaluateExpression, ExpressionContext, ExpressionFormat, formatValue } from './miscExpression';
 import { Subject } from 'await-notify';
-import { LoggingDebugSession, StoppedEvent, InitializedEvent, logger, Logger, Breakpoint, BreakpointEvent, Scope, Thread, OutputEvent, Source, TerminatedEvent, StackFrame, Handles } from 'vscode-debugadapter';
-import { basename } from 'path';
+import { LoggingDebugSession, StoppedEvent, InitializedEvent, logger, Logger, BreakpointEvent, Scope, Thread, OutputEvent, Source, TerminatedEvent, StackFrame, Handles, InvalidatedEvent, Event } from 'vscode-debugadapter';
+import { basename, dirname } from 'path';
 
 /**
  * This interface describes the mock-debug specific launch attributes
@@ -25,8 +33,89 @@ interface ILaunchRequestArguments extends DebugProtocol.LaunchRequestArguments {
 	trace?: boolean;
 	/** run without debugging */
 	noDebug?: boolean;
+	/** Run the program on a MISC runtime server ('external') or on the in-process emulator ('embedded'). Defaults to 'external'. */
+	runtime?: 'external' | 'embedded';
+	/** Protocol used to talk to an external runtime. Defaults to 'http'. */
+	transport?: 'http' | 'tcp';
+	/** Host name of the MISC runtime. Defaults to 'localhost'. */
+	runtimeHost?: string;
+	/** Port of the MISC runtime's HTTP API. Defaults to 5000. */
+	runtimePort?: number;
+	/** Executable that starts the MISC runtime. If not specified, an already running runtime is used. */
+	runtimeExecutable?: string;
+	/** Arguments passed to the runtime executable. */
+	runtimeArgs?: string[];
+	/** Working directory of the runtime. Defaults to the directory of the program. */
+	cwd?: string;
+	/** Environment variables passed to the runtime. */
+	env?: { [key: string]: string };
+	/** Milliseconds to wait for the runtime to answer a request, 0 waits forever. Defaults to 10000. */
+	requestTimeout?: number;
+	/** How often to try reaching a runtime that is still starting. Defaults to 8. */
+	connectAttempts?: number;
+	/** Milliseconds to wait before trying again, doubled after every failed attempt up to 2000. Defaults to 250. */
+	connectRetryDelay?: number;
+	/** Number of instructions that can be stepped back, 0 turns reverse debugging off. Defaults to 10000. */
+	historyLimit?: number;
+	/** Record every executed instruction from the start, see the 'Export Execution Trace' command. */
+	recordTrace?: boolean;
+	/** Count how often every line executes and show the counts in the editor. */
+	profile?: boolean;
+	/** Record which source lines execute, write them to 'lcov.info' and highlight them in the editor. */
+	coverage?: boolean;
 }
 
+/**
+ * The mock-debug specific attach attributes.
+ * Attaching connects to a runtime which has already loaded and started the program.
+ */
+interface IAttachRequestArguments extends DebugProtocol.AttachRequestArguments {
+	/** An absolute path to the source of the program loaded in the runtime. */
+	program: string;
+	/** enable logging the Debug Adapter Protocol */
+	trace?: boolean;
+	/** Protocol used to talk to the runtime. Defaults to 'http'. */
+	transport?: 'http' | 'tcp';
+	/** Host name of the MISC runtime. Defaults to 'localhost'. */
+	runtimeHost?: string;
+	/** Port of the MISC runtime's HTTP API. Defaults to 5000. */
+	runtimePort?: number;
+	/** Milliseconds to wait for the runtime to answer a request, 0 waits forever. Defaults to 10000. */
+	requestTimeout?: number;
+	/** How often to try reaching a runtime that is still starting. Defaults to 8. */
+	connectAttempts?: number;
+	/** Milliseconds to wait before trying again, doubled after every failed attempt up to 2000. Defaults to 250. */
+	connectRetryDelay?: number;
+}
+
+/** Bytes per expandable page of the Memory scope. */
+const MEMORY_PAGE_SIZE = 0x40;
+
+/** How many instructions a recorded run executes before it lets other requests in. */
+const INSTRUCTIONS_PER_YIELD = 100;
+
+/** The order in which 'toggleFormatting' switches number formats. */
+const FORMAT_CYCLE: ExpressionFormat[] = ['d', 'h', 'b', 's'];
+
+/**
+ * The run request the runtime is executing, so a breakpoint that does not stop can resume it.
+ * A step over or out is done once the program is back at 'callDepth' stack frames, a single instruction step cannot reach a breakpoint.
+ */
+type PendingRun =
+	{ kind: 'continue' } |
+	{ kind: 'reverseContinue' } |
+	{ kind: 'step', callDepth: number } |
+	{ kind: 'instruction' } |
+	{ kind: 'stepBack' };
+
+/** What a variablesReference handed out to VS Code stands for. */
+type VariablesReference =
+	{ kind: 'registers', frameId: number } |
+	{ kind: 'flags' } |
+	{ kind: 'memory' } |
+	{ kind: 'page', address: number } |
+	{ kind: 'children', variables: RuntimeVariable[] };
+
 export class DebugSession extends LoggingDebugSession {
 
 	// we don't support multiple threads, so we can use a hardcoded ID for the default thread
@@ -35,13 +124,41 @@ export class DebugSession extends LoggingDebugSession {
 	// The runtime client
 	private runtimeClient: RuntimeClient;
 	private configurationDone = new Subject();
-	private handles = new Handles<'locals' | 'globals' | any>();
+	private handles = new Handles<VariablesReference>();
+	// the source breakpoints of all files, the ones in the program also go to the runtime once the launch or attach request sent them
+	private sourceBreakpoints = new SourceBreakpoints();
+	private programPath: string | undefined;
+	private runtimeHasBreakpoints = false;
+	// conditions of the program's source breakpoints by debugger line
+	private breakpointConditions = new Map<number, BreakpointConditions[]>();
+	// conditions of the instruction breakpoints by address
+	private instructionBreakpointConditions = new Map<number, BreakpointConditions>();
+	// where the runtime has breakpoints, for running the program while a trace, a profile or the coverage is recorded
+	private breakpointLines = new Set<number>();
+	private instructionBreakpointAddresses = new Set<number>();
+	private trace = new ExecutionTrace();
+	private recordingTrace = false;
+	private profile = new ExecutionProfile();
+	private profiling = false;
+	private coverage = new LineCoverage();
+	private collectingCoverage = false;
+	// the adapter runs a recorded program from the entry, so the runtime's stop there is not reported
+	private hideEntryStop = false;
+	private pauseRequested = false;
+	// a launched program runs until its first stop
+	private pendingRun: PendingRun = { kind: 'continue' };
+	// number formats chosen with 'toggleFormatting', for all values and by evaluateName
+	private valueFormat: ExpressionFormat = 'd';
+	private variableFormats = new Map<string, ExpressionFormat>();
+	// lets 'cancel' abandon the runtime requests of a pending request, by request seq
+	private cancellations = new Map<number, RuntimeCancellation>();
 
 	/**
 	 * Creates a new debug adapter that is used for one debug session.
 	 * We configure the default implementation of a debug adapter here.
+	 * The transportFactory decides how the runtime selected in the launch configuration is reached.
 	 */
-	public constructor(fileAccessor: FileAccessor) {
+	public constructor(private fileAccessor: FileAccessor, private transportFactory: RuntimeTransportFactory = defaultTransportFactory) {
 		super("mock-debug.txt");
 
 		// this debugger uses zero-based lines and columns
@@ -57,13 +174,27 @@ export class DebugSession extends LoggingDebugSession {
 	/** Setup event handlers */
 	protected setupEvents() {
 		this.runtimeClient.on('stopOnEntry', () => {
+			if (this.hideEntryStop) {
+				this.hideEntryStop = false;
+				return;
+			}
 			this.sendEvent(new StoppedEvent('entry', DebugSession.threadID));
 		});
 		this.runtimeClient.on('stopOnStep', () => {
-			this.sendEvent(new StoppedEvent('step', DebugSession.threadID));
+			this.stepStopped();
+		});
+		this.runtimeClient.on('stopOnPause', async () => {
+			await this.rewindTrace();
+			this.sendEvent(new StoppedEvent('pause', DebugSession.threadID));
+		});
+		this.runtimeClient.on('stopOnBreakpoint', async () => {
+			if (!await this.breakpointHit()) {
+				await this.resume();
+			}
 		});
-		this.runtimeClient.on('stopOnBreakpoint', () => {
-			this.sendEvent(new StoppedEvent('breakpoint', DebugSession.threadID));
+		this.runtimeClient.on('stopOnDataBreakpoint', async (access: RuntimeDataAccess | undefined, breakpointId: number | undefined) => {
+			await this.rewindTrace();
+			this.dataBreakpointHit(access, breakpointId);
 		});
 		this.runtimeClient.on('stopOnException', (exception) => {
 			if (exception) {
@@ -72,21 +203,25 @@ export class DebugSession extends LoggingDebugSession {
 				this.sendEvent(new StoppedEvent('exception', DebugSession.threadID));
 			}
 		});
-		this.runtimeClient.on('breakpointValidated', (breakpoint: RuntimeBreakpoint) => {
-			this.sendEvent(new BreakpointEvent('changed', { verified: breakpoint.verified, id: breakpoint.id } as DebugProtocol.Breakpoint));
-		});
-		this.runtimeClient.on('output', (text, filePath, line, column) => {
-			const e: DebugProtocol.OutputEvent = new OutputEvent(`${text}\n`);
+		this.runtimeClient.on('output', (text, filePath, line, column, category) => {
+			const e: DebugProtocol.OutputEvent = new OutputEvent(`${text}\n`, category);
 
-			e.body.source = this.createSource(filePath);
-			e.body.line = this.convertDebuggerLineToClient(line);
-			e.body.column = this.convertDebuggerColumnToClient(column);
+			if (filePath) {
+				e.body.source = this.createSource(filePath);
+				e.body.line = this.convertDebuggerLineToClient(line);
+				e.body.column = this.convertDebuggerColumnToClient(column);
+			}
 
 			this.sendEvent(e);
 		});
 		this.runtimeClient.on('end', () => {
 			this.sendEvent(new TerminatedEvent());
 		});
+		this.runtimeClient.on('transportError', (message: string) => {
+			// the runtime is gone, say so instead of ending the session as if the program had finished
+			this.sendEvent(new OutputEvent(`${message}\n`, 'stderr'));
+			this.sendEvent(new TerminatedEvent());
+		});
 	}
 
 	/**
@@ -111,6 +246,30 @@ export class DebugSession extends LoggingDebugSession {
 		response.body.supportsCancelRequest = true;
 		// make VS Code send the breakpointLocations request
 		response.body.supportsBreakpointLocationsRequest = true;
+		// make VS Code send the terminate request
+		response.body.supportsTerminateRequest = true;
+		// make VS Code offer conditions, hit counts and log messages for breakpoints
+		response.body.supportsConditionalBreakpoints = true;
+		response.body.supportsHitConditionalBreakpoints = true;
+		response.body.supportsLogPoints = true;
+		// make VS Code offer data breakpoints in the Variables view
+		response.body.supportsDataBreakpoints = true;
+		// make VS Code open the memory inspector for variables with a memoryReference
+		response.body.supportsReadMemoryRequest = true;
+		response.body.supportsWriteMemoryRequest = true;
+		// make VS Code offer 'Set Value' for registers and watch expressions
+		response.body.supportsSetVariable = true;
+		response.body.supportsSetExpression = true;
+		// make VS Code use 'evaluate' when hovering over source
+		response.body.supportsEvaluateForHovers = true;
+		// make VS Code ask for register names and opcodes while typing in the debug console
+		response.body.supportsCompletionsRequest = true;
+		// make VS Code offer the Disassembly view and breakpoints in it
+		response.body.supportsDisassembleRequest = true;
+		response.body.supportsInstructionBreakpoints = true;
+		// 'supportsSteppingGranularity' is left out: every source line holds one instruction, so the Disassembly view steps by line as well
+		// make VS Code show the 'Step Back' and 'Reverse' buttons
+		response.body.supportsStepBack = true;
 
 		this.sendResponse(response);
 	}
@@ -131,53 +290,275 @@ export class DebugSession extends LoggingDebugSession {
 		// make sure to 'Stop' the buffered logging if 'trace' is not set
 		logger.setup(args.trace ? Logger.LogLevel.Verbose : Logger.LogLevel.Stop, false);
 
+		// breakpoints set during the configuration sequence already go to this runtime
+		this.runtimeClient.setTransport(this.transportFactory.createTransport(args));
+		this.runtimeClient.requestTimeout = args.requestTimeout ?? DEFAULT_REQUEST_TIMEOUT;
+		// set before waiting for the runtime, which is when VS Code sends the breakpoints
+		this.programPath = args.program;
+
+		if (args.runtime !== 'embedded' && args.runtimeExecutable) {
+			const launchError = await this.runtimeClient.launchRuntime({
+				executable: args.runtimeExecutable,
+				args: args.runtimeArgs,
+				cwd: args.cwd || dirname(args.program),
+				env: args.env
+			}, retryPolicy(args));
+
+			if (launchError) {
+				this.runtimeClient.disconnect();
+				this.sendErrorResponse(response, {
+					id: 1003,
+					format: `Cannot start runtime '${args.runtimeExecutable}': ${launchError}`,
+					showUser: true
+				});
+				return;
+			}
+		} else if (args.runtime !== 'embedded') {
+			// e.g. started by a preLaunchTask, if it never answers 'start' reports why
+			await this.runtimeClient.connectRuntime(retryPolicy(args));
+		}
+
+		this.recordingTrace = !!args.recordTrace;
+		this.profiling = !!args.profile;
+		this.collectingCoverage = !!args.coverage;
+
 		// wait until configuration has finished (and configurationDoneRequest has been called)
 		await this.configurationDone.wait(1000);
+		await this.sendRuntimeBreakpoints();
+
+		// while recording, the adapter executes the program itself from the entry
+		const runFromEntry = this.recording && !args.stopOnEntry;
+		this.hideEntryStop = runFromEntry;
 
 		// start the program in the runtime
-		const startResponse = await this.runtimeClient.start(args.program, !!args.stopOnEntry);
+		const startResponse = await this.runtimeClient.start(args.program, !!args.stopOnEntry || runFromEntry, args.historyLimit);
 
 		if (startResponse.error) {
-			// simulate a compile/build error in "launch" request:
-			// the error should not result in a modal dialog since 'showUser' is set to false.
-			// A missing 'showUser' should result in a modal dialog.
+			this.sendStartFailure(response, startResponse.error, args.program);
+			return;
+		}
+		await this.verifyBreakpoints();
+
+		if (this.collectingCoverage) {
+			// the whole program, a MISC program cannot have more instructions than fit into memory
+			const instructions = await this.runtimeClient.disassemble(0, MEMORY_SIZE / INSTRUCTION_SIZE);
+			this.coverage.addLines(instructions.map(instruction => this.convertDebuggerLineToClient(instruction.line)));
+		}
+
+		this.sendResponse(response);
+		if (runFromEntry) {
+			await this.runRecorded(() => false);
+		}
+	}
+
+	protected async attachRequest(response: DebugProtocol.AttachResponse, args: IAttachRequestArguments) {
+
+		logger.setup(args.trace ? Logger.LogLevel.Verbose : Logger.LogLevel.Stop, false);
+
+		this.runtimeClient.setTransport(this.transportFactory.createTransport(args));
+		this.runtimeClient.requestTimeout = args.requestTimeout ?? DEFAULT_REQUEST_TIMEOUT;
+		this.programPath = args.program;
+		await this.runtimeClient.connectRuntime(retryPolicy(args));
+
+		await this.configurationDone.wait(1000);
+		await this.sendRuntimeBreakpoints();
+
+		// the program is already loaded and running, so only connect to it
+		const attachResponse = await this.runtimeClient.attach(args.program);
+
+		if (attachResponse.error) {
 			this.sendErrorResponse(response, {
-				id: 1001,
-				format: `Runtime: ${startResponse.error}`,
+				id: attachResponse.error.kind === 'transport' ? 1008 : 1002,
+				format: attachResponse.error.kind === 'transport' ? attachResponse.error.message : `Runtime: ${attachResponse.error.message}`,
 				showUser: true
 			});
 		} else {
+			await this.verifyBreakpoints();
 			this.sendResponse(response);
 		}
 	}
 
+	/**
+	 * A load error with a source position is shown at its line in the Debug Console and, through the 'loadError' event, in the Problems panel.
+	 * Like a build error it does not need a modal dialog then, unlike runtimes that cannot be reached or cannot run the program.
+	 */
+	private sendStartFailure(response: DebugProtocol.Response, failure: RuntimeFailure, program: string) {
+		const located = failure.kind === 'load' && failure.line !== undefined;
+
+		if (located) {
+			const line = this.convertDebuggerLineToClient(failure.line!);
+			const column = this.convertDebuggerColumnToClient(failure.column || 0);
+
+			const e: DebugProtocol.OutputEvent = new OutputEvent(`${failure.message}\n`, 'stderr');
+			e.body.source = this.createSource(program);
+			e.body.line = line;
+			e.body.column = column;
+			this.sendEvent(e);
+			this.sendEvent(new Event('loadError', { program: this.convertDebuggerPathToClient(program), line, column, message: failure.message }));
+		}
+
+		switch (failure.kind) {
+			case 'transport':
+				this.sendErrorResponse(response, { id: 1008, format: failure.message, showUser: true });
+				break;
+			case 'load':
+				this.sendErrorResponse(response, {
+					id: 1001,
+					format: located ? `Cannot load '${basename(program)}', line ${this.convertDebuggerLineToClient(failure.line!)}: ${failure.message}` : `Cannot load '${basename(program)}': ${failure.message}`,
+					showUser: !located
+				});
+				break;
+			default:
+				this.sendErrorResponse(response, { id: 1009, format: `Runtime: ${failure.message}`, showUser: true });
+		}
+	}
+
+	/**
+	 * Every request gets a cancellation, the handlers that only read from the runtime pass it on.
+	 * A cancelled request still gets its response, marked as cancelled.
+	 */
+	protected dispatchRequest(request: DebugProtocol.Request): void {
+		this.cancellations.set(request.seq, new RuntimeCancellation());
+		super.dispatchRequest(request);
+	}
+
+	public sendResponse(response: DebugProtocol.Response): void {
+		const cancellation = this.cancellations.get(response.request_seq);
+		this.cancellations.delete(response.request_seq);
+
+		if (cancellation?.isCancelled) {
+			response.success = false;
+			response.message = 'cancelled';
+			response.body = undefined;
+		}
+		super.sendResponse(response);
+	}
+
+	/** VS Code cancels e.g. the variables and stack trace requests of a stop it no longer shows. */
+	protected cancelRequest(response: DebugProtocol.CancelResponse, args: DebugProtocol.CancelArguments): void {
+		if (args.requestId !== undefined) {
+			this.cancellations.get(args.requestId)?.cancel();
+		}
+		this.sendResponse(response);
+	}
+
+	private cancellationOf(response: DebugProtocol.Response): RuntimeCancellation | undefined {
+		return this.cancellations.get(response.request_seq);
+	}
+
 	protected disconnectRequest(response: DebugProtocol.DisconnectResponse, args: DebugProtocol.DisconnectArguments, request?: DebugProtocol.Request): void {
 		this.runtimeClient.disconnect();
 		this.sendResponse(response);
 	}
 
+	protected terminateRequest(response: DebugProtocol.TerminateResponse, args: DebugProtocol.TerminateArguments, request?: DebugProtocol.Request): void {
+		this.runtimeClient.disconnect();
+		this.sendResponse(response);
+		this.sendEvent(new TerminatedEvent());
+	}
+
+	/**
+	 * Breakpoints keep their ids while they stay on their line and are reported on the instruction they stop at.
+	 * Only breakpoints in the program reach the runtime, and only the lines that changed.
+	 */
 	protected async setBreakPointsRequest(response: DebugProtocol.SetBreakpointsResponse, args: DebugProtocol.SetBreakpointsArguments): Promise<void> {
-		const clientLines = args.lines || [];
+		const clientBreakpoints: DebugProtocol.SourceBreakpoint[] = args.breakpoints || (args.lines || []).map(line => ({ line }));
+		const path = this.convertClientPathToDebugger(args.source.path || '');
 
-		// clear all breakpoints for this file
-		await this.runtimeClient.clearBreakpoints();
+		const { breakpoints, added, removed } = this.sourceBreakpoints.set(
+			path,
+			clientBreakpoints.map(breakpoint => ({ ...breakpoint, line: this.convertClientLineToDebugger(breakpoint.line) })),
+			await this.programOf(path)
+		);
 
-		// set and verify breakpoint locations
-		const trueBreakpoints = clientLines.map(async l => {
-			const { verified, line, id } = await this.runtimeClient.setBreakPoint(this.convertClientLineToDebugger(l));
-			const breakpoint = new Breakpoint(verified, this.convertDebuggerLineToClient(line)) as DebugProtocol.Breakpoint;
-			return { ...breakpoint, id };
-		});
+		if (path === this.programPath && this.runtimeHasBreakpoints) {
+			// the runtime can only clear all breakpoints, so removing one sets the others again
+			if (removed.length) {
+				await this.sendRuntimeBreakpoints();
+			} else {
+				for (const line of added) {
+					await this.runtimeClient.setBreakPoint(line);
+				}
+			}
+		}
+		this.updateBreakpointLines();
 
-		const breakpoints = await Promise.all<DebugProtocol.Breakpoint>(trueBreakpoints);
+		response.body = {
+			breakpoints: breakpoints.map(breakpoint => this.createBreakpoint(path, breakpoint))
+		};
+		this.sendResponse(response);
+	}
+
+	protected async setInstructionBreakpointsRequest(response: DebugProtocol.SetInstructionBreakpointsResponse, args: DebugProtocol.SetInstructionBreakpointsArguments): Promise<void> {
+
+		await this.runtimeClient.clearInstructionBreakpoints();
+		this.instructionBreakpointConditions.clear();
+		this.instructionBreakpointAddresses.clear();
+
+		const breakpoints: DebugProtocol.Breakpoint[] = [];
+		for (const { instructionReference, offset, condition, hitCondition } of args.breakpoints) {
+			const reference = parseMemoryReference(instructionReference);
+
+			if (reference === undefined) {
+				breakpoints.push({ verified: false, message: `Invalid instruction reference '${instructionReference}'` });
+				continue;
+			}
 
-		// send back the actual breakpoint positions
-		this.sendResponse({ ...response, body: { ...response.body, breakpoints } });
+			const { verified, address, id } = await this.runtimeClient.setInstructionBreakpoint(reference + (offset || 0));
+			if (condition || hitCondition) {
+				this.instructionBreakpointConditions.set(address, { condition, hitCondition, hits: 0 });
+			}
+			this.instructionBreakpointAddresses.add(address);
+			breakpoints.push({ verified, id, instructionReference: formatInstructionReference(address) });
+		}
+
+		response.body = {
+			breakpoints
+		};
+		this.sendResponse(response);
 	}
 
+	/** Every instruction line in the range is a location, taken from the assembled source without asking the runtime. */
 	protected async breakpointLocationsRequest(response: DebugProtocol.BreakpointLocationsResponse, args: DebugProtocol.BreakpointLocationsArguments, request?: DebugProtocol.Request): Promise<void> {
-		const breakpoints = await this.runtimeClient.getBreakpoints(); // array
-		this.sendResponse({ ...response, body: { ...breakpoints } });
+		const program = await this.programOf(this.convertClientPathToDebugger(args.source.path || ''));
+		const first = this.convertClientLineToDebugger(args.line);
+		const last = this.convertClientLineToDebugger(args.endLine ?? args.line);
+
+		response.body = {
+			breakpoints: (program?.instructions || [])
+				.filter(instruction => instruction.line >= first && instruction.line <= last)
+				.map(instruction => ({ line: this.convertDebuggerLineToClient(instruction.line) }))
+		};
+		this.sendResponse(response);
+	}
+
+	/** Registers and memory addresses like '#1F' or '[#1F]' can be watched. */
+	protected dataBreakpointInfoRequest(response: DebugProtocol.DataBreakpointInfoResponse, args: DebugProtocol.DataBreakpointInfoArguments): void {
+		const register = /^R\d+$/i.exec(args.name);
+		const address = /^\[?(#[0-9A-F]+)\]?$/i.exec(args.name);
+		const dataId = register ? register[0].toUpperCase() : address ? address[1].toUpperCase() : null;
+
+		response.body = {
+			dataId,
+			description: dataId || `'${args.name}' cannot be watched`,
+			accessTypes: dataId ? ['read', 'write', 'readWrite'] : undefined,
+			canPersist: !!dataId
+		};
+		this.sendResponse(response);
+	}
+
+	protected async setDataBreakpointsRequest(response: DebugProtocol.SetDataBreakpointsResponse, args: DebugProtocol.SetDataBreakpointsArguments): Promise<void> {
+		await this.runtimeClient.clearDataBreakpoints();
+
+		const breakpoints = await Promise.all(args.breakpoints.map(async breakpoint => {
+			const { verified, id } = await this.runtimeClient.setDataBreakpoint(breakpoint.dataId, breakpoint.accessType || 'write');
+			return { verified, id };
+		}));
+
+		response.body = {
+			breakpoints
+		};
+		this.sendResponse(response);
 	}
 
 	protected threadsRequest(response: DebugProtocol.ThreadsResponse): void {
@@ -193,12 +574,17 @@ export class DebugSession extends LoggingDebugSession {
 
 	protected async stackTraceRequest(response: DebugProtocol.StackTraceResponse, args: DebugProtocol.StackTraceArguments): Promise<void> {
 
-		const stackFrames = await this.runtimeClient.getStackFrames();
+		const stackFrames = await this.runtimeClient.getStackFrames(this.cancellationOf(response));
 
 		response.body = {
-			stackFrames: stackFrames.frames.map(frame =>
-				new StackFrame(frame.index, frame.name,
-					this.createSource(frame.file), this.convertDebuggerLineToClient(frame.line))),
+			stackFrames: stackFrames.frames.map(frame => {
+				const stackFrame: DebugProtocol.StackFrame = new StackFrame(frame.index, frame.name,
+					this.createSource(frame.file), this.convertDebuggerLineToClient(frame.line));
+				if (frame.address !== undefined) {
+					stackFrame.instructionPointerReference = formatInstructionReference(frame.address);
+				}
+				return stackFrame;
+			}),
 			totalFrames: stackFrames.count
 		};
 		this.sendResponse(response);
@@ -208,52 +594,661 @@ export class DebugSession extends LoggingDebugSession {
 
 		response.body = {
 			scopes: [
-				new Scope("Globals", this.handles.create('globals'), false)
+				new Scope("Registers", this.handles.create({ kind: 'registers', frameId: args.frameId }), false),
+				new Scope("Flags", this.handles.create({ kind: 'flags' }), false),
+				new Scope("Memory", this.handles.create({ kind: 'memory' }), true)
 			]
 		};
 		this.sendResponse(response);
 	}
 
 	protected async variablesRequest(response: DebugProtocol.VariablesResponse, args: DebugProtocol.VariablesArguments, request?: DebugProtocol.Request): Promise<void> {
-		const variables = await this.runtimeClient.getVariables();
+		const reference = this.handles.get(args.variablesReference);
+		const cancellation = this.cancellationOf(response);
+		let variables: DebugProtocol.Variable[] = [];
+
+		switch (reference?.kind) {
+			case 'registers':
+				variables = await this.getRegisters(reference.frameId, args.format, cancellation);
+				break;
+			case 'flags':
+				variables = (await this.runtimeClient.getVariables(cancellation))
+					.filter(variable => variable.type === 'status')
+					.map(variable => this.getDebugVariable(variable, args.format));
+				break;
+			case 'memory':
+				variables = this.getMemoryPages();
+				break;
+			case 'page':
+				variables = await this.getMemoryWords(reference.address, args.format, cancellation);
+				break;
+			case 'children':
+				variables = reference.variables.map(variable => this.getDebugVariable(variable, args.format));
+				break;
+		}
+
+		response.body = {
+			variables
+		};
+
+		this.sendResponse(response);
+	}
+
+	/**
+	 * All frames share the registers, but the PC of a calling frame is the address of its CALL.
+	 */
+	private async getRegisters(frameId: number, format?: DebugProtocol.ValueFormat, cancellation?: RuntimeCancellation): Promise<DebugProtocol.Variable[]> {
+		const variables = (await this.runtimeClient.getVariables(cancellation)).filter(variable => variable.type !== 'status');
+
+		if (frameId > 0) {
+			const { frames } = await this.runtimeClient.getStackFrames(cancellation);
+			const address = frames.find(frame => frame.index === frameId)?.address;
+			const pc = variables.findIndex(variable => variable.name === 'PC');
+
+			if (address !== undefined && pc >= 0) {
+				variables[pc] = { ...variables[pc], value: `${address}`, address };
+			}
+		}
+		return variables.map(variable => this.getDebugVariable(variable, format));
+	}
+
+	private getMemoryPages(): DebugProtocol.Variable[] {
+		const pages: DebugProtocol.Variable[] = [];
+
+		for (let address = 0; address < MEMORY_SIZE; address += MEMORY_PAGE_SIZE) {
+			pages.push({
+				name: `${formatMemoryReference(address)}..${formatMemoryReference(address + MEMORY_PAGE_SIZE - 1)}`,
+				value: `${MEMORY_PAGE_SIZE / 2} words`,
+				variablesReference: this.handles.create({ kind: 'page', address }),
+				memoryReference: formatMemoryReference(address)
+			});
+		}
+		return pages;
+	}
+
+	private async getMemoryWords(address: number, format?: DebugProtocol.ValueFormat, cancellation?: RuntimeCancellation): Promise<DebugProtocol.Variable[]> {
+		const memory = await this.runtimeClient.readMemory(address, MEMORY_PAGE_SIZE, cancellation);
+		const bytes = memory?.data ? Buffer.from(memory.data, 'base64') : Buffer.alloc(0);
+		const words: DebugProtocol.Variable[] = [];
+
+		for (let offset = 0; offset + 1 < bytes.length; offset += 2) {
+			const wordAddress = memory.address + offset;
+			words.push(this.getDebugVariable({
+				name: formatMemoryReference(wordAddress),
+				value: `${bytes.readUInt16BE(offset)}`,
+				type: 'word',
+				evaluateName: `[${formatMemoryReference(wordAddress)}]`,
+				address: wordAddress
+			}, format));
+		}
+		return words;
+	}
+
+	protected async setVariableRequest(response: DebugProtocol.SetVariableResponse, args: DebugProtocol.SetVariableArguments): Promise<void> {
+		const reference = this.handles.get(args.variablesReference);
+		const variable = reference?.kind === 'page'
+			? await this.setMemoryWord(response, args.name, args.value)
+			: await this.setRegister(response, args.name, args.value);
+
+		if (variable) {
+			response.body = {
+				value: variable.value,
+				type: variable.type
+			};
+			this.sendResponse(response);
+
+			// watch expressions may show the register too
+			this.sendEvent(new InvalidatedEvent(['variables']));
+		}
+	}
+
+	/** Watch expressions can be changed if they name a register. */
+	protected async setExpressionRequest(response: DebugProtocol.SetExpressionResponse, args: DebugProtocol.SetExpressionArguments): Promise<void> {
+		const variable = await this.setRegister(response, args.expression.trim(), args.value);
+
+		if (variable) {
+			response.body = {
+				value: variable.value,
+				type: variable.type,
+				variablesReference: 0
+			};
+			this.sendResponse(response);
+
+			// other watches and the Variables view may show the register too
+			this.sendEvent(new InvalidatedEvent(['variables']));
+		}
+	}
+
+	/** Returns the changed register or sends an error response if the value is invalid or the runtime refused it. */
+	private async setRegister(response: DebugProtocol.Response, name: string, text: string): Promise<DebugProtocol.Variable | undefined> {
+		const value = parseValue(text);
+
+		if (typeof value === 'string') {
+			this.sendErrorResponse(response, { id: 1006, format: value, showUser: true });
+			return undefined;
+		}
+
+		const variable = await this.runtimeClient.setVariable(name.toUpperCase(), value);
+
+		if (!variable || variable.error) {
+			this.sendErrorResponse(response, { id: 1006, format: `Cannot set '${name}': ${variable?.error}`, showUser: true });
+			return undefined;
+		}
+
+		return this.getDebugVariable(variable);
+	}
+
+	protected async evaluateRequest(response: DebugProtocol.EvaluateResponse, args: DebugProtocol.EvaluateArguments): Promise<void> {
+		const result = await evaluateExpression(args.expression, await this.getExpressionContext(this.cancellationOf(response)));
+
+		if (typeof result === 'string') {
+			// hovers just show nothing
+			this.sendErrorResponse(response, { id: 1007, format: result, showUser: args.context === 'repl' });
+			return;
+		}
+
+		response.body = {
+			result: formatValue(result.value, result.format || this.formatFor(args.expression.trim().toUpperCase(), args.format)),
+			variablesReference: 0,
+			memoryReference: result.value >= 0 && result.value < MEMORY_SIZE ? formatMemoryReference(result.value) : undefined
+		};
+		this.sendResponse(response);
+	}
+
+	protected completionsRequest(response: DebugProtocol.CompletionsResponse, args: DebugProtocol.CompletionsArguments): void {
+		const column = this.convertClientColumnToDebugger(args.column);
+		const prefix = (/[A-Za-z0-9_]*$/.exec(args.text.substring(0, column)) || [''])[0].toUpperCase();
+		const registers = Array.from({ length: REGISTER_COUNT }, (_, i) => `R${i + 1}`).concat('SP', 'PC');
+
+		const targets: DebugProtocol.CompletionItem[] = [
+			...registers.map(name => ({ label: name, type: <DebugProtocol.CompletionItemType>'variable' })),
+			...Array.from(OPERAND_KINDS.keys()).map(opcode => ({ label: opcode, type: <DebugProtocol.CompletionItemType>'keyword' }))
+		];
+
+		response.body = {
+			targets: targets.filter(target => target.label.startsWith(prefix))
+		};
+		this.sendResponse(response);
+	}
+
+	/** Rows of the Memory scope are named after the address of their word. */
+	private async setMemoryWord(response: DebugProtocol.Response, name: string, text: string): Promise<DebugProtocol.Variable | undefined> {
+		const address = parseMemoryReference(name);
+		const value = parseValue(text);
+
+		if (address === undefined || typeof value === 'string') {
+			this.sendErrorResponse(response, { id: 1006, format: typeof value === 'string' ? value : `Invalid memory word '${name}'`, showUser: true });
+			return undefined;
+		}
+
+		const result = await this.runtimeClient.writeMemory(address, Buffer.from([value >> 8, value & 0xFF]).toString('base64'));
+
+		if (!result || result.error) {
+			this.sendErrorResponse(response, { id: 1006, format: `Cannot set '${name}': ${result?.error}`, showUser: true });
+			return undefined;
+		}
+
+		return this.getDebugVariable({ name, value: `${value}`, type: 'word', evaluateName: `[${name}]`, address });
+	}
+
+	/**
+	 * VS Code asks for a fixed number of instructions around the instruction pointer,
+	 * addresses without an instruction are filled with '??'.
+	 * There are no addresses below 0, so such a range is moved up (VS Code places instructions by their address).
+	 */
+	protected async disassembleRequest(response: DebugProtocol.DisassembleResponse, args: DebugProtocol.DisassembleArguments): Promise<void> {
+		const reference = parseMemoryReference(args.memoryReference);
+
+		if (reference === undefined) {
+			this.sendErrorResponse(response, { id: 1004, format: `Invalid memory reference '${args.memoryReference}'` });
+			return;
+		}
+
+		// instructions start at multiples of the instruction size, the ones before address 0 are padded with placeholders
+		const first = Math.floor((reference + (args.offset || 0)) / INSTRUCTION_SIZE) + (args.instructionOffset || 0);
+		const padding = Math.min(Math.max(-first, 0), args.instructionCount);
+		const runtimeInstructions = padding < args.instructionCount
+			? await this.runtimeClient.disassemble((first + padding) * INSTRUCTION_SIZE, args.instructionCount - padding, this.cancellationOf(response))
+			: [];
+		const source = this.createSource(this.runtimeClient.sourcePath || '');
+
+		const instructions: DebugProtocol.DisassembledInstruction[] = [];
+		for (let i = 0; i < args.instructionCount; i++) {
+			const address = (first + i) * INSTRUCTION_SIZE;
+			const instruction = runtimeInstructions.find(candidate => candidate.address === address);
+
+			instructions.push(instruction ? {
+				address: formatInstructionReference(address),
+				instructionBytes: instruction.bytes.map(byte => byte.toString(16).toUpperCase().padStart(2, '0')).join(' '),
+				instruction: instruction.text,
+				symbol: args.resolveSymbols === false ? undefined : instruction.symbol,
+				location: source,
+				line: this.convertDebuggerLineToClient(instruction.line)
+			} : {
+				// DAP reads addresses without '0x' as decimal, which is the only way to write the ones before address 0
+				address: address < 0 ? address.toString() : formatInstructionReference(address),
+				instruction: '??'
+			});
+		}
 
 		response.body = {
-			variables: variables?.map(variable => this.getDebugVariable(variable))
+			instructions
 		};
+		this.sendResponse(response);
+	}
+
+	protected async readMemoryRequest(response: DebugProtocol.ReadMemoryResponse, args: DebugProtocol.ReadMemoryArguments): Promise<void> {
+		const address = parseMemoryReference(args.memoryReference);
+
+		if (address === undefined) {
+			this.sendErrorResponse(response, { id: 1004, format: `Invalid memory reference '${args.memoryReference}'` });
+			return;
+		}
+
+		const memory = await this.runtimeClient.readMemory(address + (args.offset || 0), args.count, this.cancellationOf(response));
 
+		response.body = {
+			address: formatInstructionReference(memory?.address ?? address),
+			data: memory?.data,
+			unreadableBytes: memory?.unreadableBytes
+		};
 		this.sendResponse(response);
 	}
 
-	protected setVariableRequest(response: DebugProtocol.SetVariableResponse, args: DebugProtocol.SetVariableArguments): void {
-		// const scope = this.handles.get(args.variablesReference);
-		// if (scope === 'locals') {
-		// 	const rv = this._runtime.getLocalVariable(args.name);
-		// 	if (rv) {
-		// 		rv.value = this.convertToRuntime(args.value);
-		// 		response.body = this.convertFromRuntime(rv);
-		// 	}
-		// }
+	protected async writeMemoryRequest(response: DebugProtocol.WriteMemoryResponse, args: DebugProtocol.WriteMemoryArguments): Promise<void> {
+		const address = parseMemoryReference(args.memoryReference);
+
+		if (address === undefined) {
+			this.sendErrorResponse(response, { id: 1004, format: `Invalid memory reference '${args.memoryReference}'` });
+			return;
+		}
+
+		const result = await this.runtimeClient.writeMemory(address + (args.offset || 0), args.data);
+
+		if (result?.error) {
+			this.sendErrorResponse(response, { id: 1005, format: `Cannot write memory: ${result.error}`, showUser: true });
+			return;
+		}
+
+		response.body = {
+			bytesWritten: result?.bytesWritten
+		};
 		this.sendResponse(response);
+
+		// registers may show values read from the changed memory
+		this.sendEvent(new InvalidatedEvent(['variables']));
 	}
 
 	protected async continueRequest(response: DebugProtocol.ContinueResponse, args: DebugProtocol.ContinueArguments): Promise<void> {
+		this.pendingRun = { kind: 'continue' };
+
+		if (this.recording) {
+			this.sendResponse(response);
+			await this.runRecorded(() => false);
+			return;
+		}
+
 		await this.runtimeClient.continue();
 		this.sendResponse(response);
 	}
 
+	protected async stepBackRequest(response: DebugProtocol.StepBackResponse, args: DebugProtocol.StepBackArguments): Promise<void> {
+		this.pendingRun = { kind: 'stepBack' };
+		await this.uncountHit();
+		await this.runtimeClient.stepBack();
+		this.sendResponse(response);
+	}
+
+	protected async reverseContinueRequest(response: DebugProtocol.ReverseContinueResponse, args: DebugProtocol.ReverseContinueArguments): Promise<void> {
+		this.pendingRun = { kind: 'reverseContinue' };
+		await this.uncountHit();
+		await this.runtimeClient.reverseContinue();
+		this.sendResponse(response);
+	}
+
+	protected async pauseRequest(response: DebugProtocol.PauseResponse, args: DebugProtocol.PauseArguments): Promise<void> {
+		if (this.recording) {
+			this.pauseRequested = true;
+			this.sendResponse(response);
+			return;
+		}
+
+		await this.runtimeClient.pause();
+		this.sendResponse(response);
+	}
+
 	protected async nextRequest(response: DebugProtocol.NextResponse, args: DebugProtocol.NextArguments): Promise<void> {
+		const { count } = await this.runtimeClient.getStackFrames();
+		this.pendingRun = { kind: 'step', callDepth: count };
+
+		if (this.recording) {
+			this.sendResponse(response);
+			await this.runRecorded(depth => depth <= count);
+			return;
+		}
+
+		await this.runtimeClient.stepOver();
+		this.sendResponse(response);
+	}
+
+	protected async stepInRequest(response: DebugProtocol.StepInResponse, args: DebugProtocol.StepInArguments): Promise<void> {
+		this.pendingRun = { kind: 'instruction' };
+
+		if (this.recording) {
+			this.sendResponse(response);
+			await this.runRecorded(() => true);
+			return;
+		}
+
+		// a single instruction step enters the callee of a CALL
 		await this.runtimeClient.step();
 		this.sendResponse(response);
 	}
 
-	private getDebugVariable(variable: any): DebugProtocol.Variable {
+	protected async stepOutRequest(response: DebugProtocol.StepOutResponse, args: DebugProtocol.StepOutArguments): Promise<void> {
+		const { count } = await this.runtimeClient.getStackFrames();
+		this.pendingRun = { kind: 'step', callDepth: count - 1 };
+
+		if (this.recording) {
+			this.sendResponse(response);
+			await this.runRecorded(depth => depth < count);
+			return;
+		}
+
+		await this.runtimeClient.stepOut();
+		this.sendResponse(response);
+	}
+
+	/** Whether the adapter executes the program instruction by instruction to record a trace, a profile or the coverage. */
+	private get recording(): boolean {
+		return this.recordingTrace || this.profiling || this.collectingCoverage;
+	}
+
+	/**
+	 * Executes the program one instruction at a time through the runtime and records every instruction in the trace, the profile and the coverage.
+	 * It stops like the runtime does: at breakpoints (except the one it starts from), at data breakpoints, when the user pauses,
+	 * when 'stepCompleted' returns true for the call depth after an instruction or when the program ends.
+	 * If recording fails the program stops where it is.
+	 */
+	private async runRecorded(stepCompleted: (callDepth: number) => boolean) {
+		try {
+			await this.record(stepCompleted);
+		} catch (error) {
+			this.sendEvent(new OutputEvent(`Recording the execution failed: ${error.message}\n`, 'stderr'));
+			this.sendEvent(new StoppedEvent('exception', DebugSession.threadID, error.message));
+		}
+	}
+
+	private async record(stepCompleted: (callDepth: number) => boolean) {
+		let before = this.recordingTrace ? await this.runtimeClient.getVariables() : [];
+		let { frames } = await this.runtimeClient.getStackFrames();
+
+		for (let count = 0; ; count++) {
+			const frame = frames[0];
+
+			// an in-process runtime answers without ever yielding, so give pause requests a chance to arrive
+			if (count % INSTRUCTIONS_PER_YIELD === INSTRUCTIONS_PER_YIELD - 1) {
+				await new Promise(resolve => setTimeout(resolve, 0));
+			}
+
+			if (this.pauseRequested) {
+				this.pauseRequested = false;
+				this.sendEvent(new StoppedEvent('pause', DebugSession.threadID));
+				return;
+			}
+			if (count > 0 && frame && (this.breakpointLines.has(frame.line) || frame.address !== undefined && this.instructionBreakpointAddresses.has(frame.address)) && await this.breakpointHit()) {
+				return;
+			}
+
+			// counted before the step because the runtime reports the end of the program before the step returns
+			const line = this.convertDebuggerLineToClient(frame?.line || 0);
+			if (this.profiling) {
+				this.profile.record(line);
+			}
+			if (this.collectingCoverage) {
+				this.coverage.hit(line);
+			}
+
+			const { stopped, cycles, dataBreakpoint } = await this.runtimeClient.step(false);
+			if (this.profiling && cycles !== undefined) {
+				this.profile.addCycles(line, cycles);
+			}
+			if (this.recordingTrace) {
+				const after = await this.runtimeClient.getVariables();
+				this.trace.record(line, this.opcodeAt(frame?.line || 0), before, after);
+				before = after;
+			}
+
+			// HALT and faults are reported by the runtime
+			if (!stopped) {
+				return;
+			}
+			if (dataBreakpoint) {
+				this.dataBreakpointHit(dataBreakpoint.access, dataBreakpoint.breakpointId);
+				return;
+			}
+
+			const callDepth = frames.length;
+			({ frames } = await this.runtimeClient.getStackFrames());
+			if (this.profiling && frames.length > callDepth) {
+				this.profile.enter(frames[0].name, frames[0].address);
+			} else if (this.profiling && frames.length < callDepth) {
+				this.profile.leave();
+			}
+
+			if (stepCompleted(frames.length)) {
+				this.sendEvent(new StoppedEvent('step', DebugSession.threadID));
+				return;
+			}
+		}
+	}
+
+	/** The opcode of the instruction on a source line, taken from the source the runtime loaded. */
+	private opcodeAt(line: number): string {
+		const text = (this.runtimeClient.sourceText || '').split(/\r?\n/)[line] || '';
+		const instruction = text.split(';')[0].replace(/^\s*[A-Za-z_][A-Za-z0-9_]*:/, '').trim();
+		return instruction.split(/[\s,]+/)[0].toUpperCase();
+	}
+
+	/**
+	 * The program reached a breakpoint, resolves to whether it stops there.
+	 * Breakpoints whose conditions are not met and logpoints do not stop, the caller resumes the pending run then.
+	 */
+	private async breakpointHit(): Promise<boolean> {
+		const { frames } = await this.runtimeClient.getStackFrames();
+		const conditions = this.conditionsAt(frames[0]);
+		let stop = conditions.length === 0;
+
+		// going backwards, every breakpoint reached undoes part of the trace, whether it stops or not
+		if (this.recordingTrace && this.runningBackwards) {
+			this.trace.rewind(frames[0]?.address);
+		}
+
+		if (conditions.length) {
+			const context = await this.getExpressionContext();
+
+			// every breakpoint at the location counts the hit and logs, even if an earlier one already stops
+			for (const breakpoint of conditions) {
+				const decision = await decideBreakpoint(breakpoint, context, !this.runningBackwards);
+
+				if (decision.log !== undefined || decision.error) {
+					const e: DebugProtocol.OutputEvent = new OutputEvent(`${decision.error || decision.log}\n`, decision.error ? 'stderr' : 'console');
+					e.body.source = this.createSource(frames[0].file);
+					e.body.line = this.convertDebuggerLineToClient(frames[0].line);
+					this.sendEvent(e);
+				}
+				stop = stop || decision.stop;
+			}
+		}
+
+		if (!stop) {
+			return false;
+		}
+		this.sendEvent(new StoppedEvent('breakpoint', DebugSession.threadID));
+		return true;
+	}
+
+	/**
+	 * The conditions of the source and instruction breakpoints at a location, empty if none of them has any.
+	 * An unconditional breakpoint next to conditional ones is listed without conditions, so it always stops.
+	 */
+	private conditionsAt(frame: RuntimeStackframe | undefined): BreakpointConditions[] {
+		if (!frame) {
+			return [];
+		}
+
+		const instruction = frame.address !== undefined && this.instructionBreakpointAddresses.has(frame.address)
+			? [this.instructionBreakpointConditions.get(frame.address) || { hits: 0 }]
+			: [];
+		const line = this.breakpointConditions.get(frame.line) || (this.breakpointLines.has(frame.line) ? [{ hits: 0 }] : []);
+		const conditions = instruction.concat(line);
+
+		return conditions.some(breakpoint => breakpoint.condition || breakpoint.hitCondition || breakpoint.logMessage) ? conditions : [];
+	}
+
+	private get runningBackwards(): boolean {
+		return this.pendingRun.kind === 'reverseContinue' || this.pendingRun.kind === 'stepBack';
+	}
+
+	/** A stop while running backwards drops the instructions it undid from the trace. */
+	private async rewindTrace() {
+		if (this.recordingTrace && this.runningBackwards) {
+			const { frames } = await this.runtimeClient.getStackFrames();
+			this.trace.rewind(frames[0]?.address);
+		}
+	}
+
+	/** Stepping back from a breakpoint undoes reaching it, so the hit no longer counts. */
+	private async uncountHit() {
+		const { frames } = await this.runtimeClient.getStackFrames();
+		for (const conditions of this.conditionsAt(frames[0])) {
+			conditions.hits = Math.max(conditions.hits - 1, 0);
+		}
+	}
+
+	private dataBreakpointHit(access: RuntimeDataAccess | undefined, breakpointId: number | undefined) {
+		const e: DebugProtocol.StoppedEvent = new StoppedEvent('data breakpoint', DebugSession.threadID);
+
+		if (access) {
+			e.body.description = access.type === 'write'
+				? `${access.target} written: ${access.oldValue} → ${access.newValue}`
+				: `${access.target} read: ${access.newValue}`;
+		}
+		if (breakpointId !== undefined) {
+			e.body.hitBreakpointIds = [breakpointId];
+		}
+
+		this.sendEvent(e);
+	}
+
+	/** Continues the run request that the runtime interrupted at a breakpoint which does not stop. */
+	private async resume() {
+		const run = this.pendingRun;
+
+		if (run.kind === 'reverseContinue') {
+			await this.uncountHit();
+			await this.runtimeClient.reverseContinue();
+		} else if (run.kind !== 'continue') {
+			await this.stepStopped();
+		} else if (this.recording) {
+			await this.runRecorded(() => false);
+		} else {
+			await this.runtimeClient.continue();
+		}
+	}
+
+	/** A step over or out that stopped inside a called routine, e.g. at a breakpoint that did not stop, steps out until it is back at its call depth. */
+	private async stepStopped() {
+		const run = this.pendingRun;
+		await this.rewindTrace();
+
+		if (run.kind === 'step' && (await this.runtimeClient.getStackFrames()).count > run.callDepth) {
+			await this.runtimeClient.stepOut();
+			return;
+		}
+		this.sendEvent(new StoppedEvent('step', DebugSession.threadID));
+	}
+
+	/** While profiling or collecting coverage, every stop and the end of the program first update what the editor shows. */
+	public sendEvent(event: DebugProtocol.Event): void {
+		if (event.event === 'stopped' || event.event === 'terminated') {
+			const program = this.convertDebuggerPathToClient(this.runtimeClient.sourcePath || '');
+			if (this.profiling) {
+				super.sendEvent(new Event('profile', this.profile.summary(program)));
+			}
+			if (this.collectingCoverage) {
+				super.sendEvent(new Event('coverage', this.coverage.summary(program)));
+			}
+		}
+		super.sendEvent(event);
+	}
+
+	/** Registers are fetched once, memory words whenever an expression reads them. */
+	private async getExpressionContext(cancellation?: RuntimeCancellation): Promise<ExpressionContext> {
+		const variables = await this.runtimeClient.getVariables(cancellation);
+
+		return {
+			registers: new Map(variables.map(variable => [`${variable.name}`.toUpperCase(), parseInt(variable.value, 10)])),
+			readWord: async address => {
+				const memory = await this.runtimeClient.readMemory(address, 2, cancellation);
+				const bytes = memory?.data ? Buffer.from(memory.data, 'base64') : undefined;
+				return bytes && bytes.length === 2 && memory.address === address ? bytes.readUInt16BE(0) : undefined;
+			}
+		};
+	}
+
+	/**
+	 * 'toggleFormatting' toggles the number format of the variable the command was invoked on or, without a variable, of all values
+	 * (which drops the formats chosen for single variables).
+	 * The formats cycle through decimal, hex, binary and signed decimal and last for the rest of the session.
+	 * 'recordTrace' turns recording the execution trace on or off and 'exportTrace' returns the trace as JSON Lines or CSV.
+	 */
+	protected customRequest(command: string, response: DebugProtocol.Response, args: any) {
+		if (command === 'toggleFormatting') {
+			const name: string | undefined = args?.variable?.evaluateName;
+			const next = (format: ExpressionFormat) => FORMAT_CYCLE[(FORMAT_CYCLE.indexOf(format) + 1) % FORMAT_CYCLE.length];
+
+			if (name) {
+				this.variableFormats.set(name, next(this.formatFor(name)));
+			} else {
+				this.valueFormat = next(this.valueFormat);
+				this.variableFormats.clear();
+			}
+			this.sendResponse(response);
+			this.sendEvent(new InvalidatedEvent(['variables']));
+		} else if (command === 'recordTrace') {
+			// starting a new recording drops the previous trace
+			this.recordingTrace = args?.enabled ?? !this.recordingTrace;
+			if (this.recordingTrace) {
+				this.trace.clear();
+			}
+			response.body = { recording: this.recordingTrace };
+			this.sendResponse(response);
+		} else if (command === 'exportTrace') {
+			const format: TraceFormat = args?.format === 'csv' ? 'csv' : 'jsonl';
+			response.body = { content: this.trace.export(format), instructions: this.trace.length };
+			this.sendResponse(response);
+		} else {
+			super.customRequest(command, response, args);
+		}
+	}
+
+	/** A format chosen for the variable wins over hex requested by VS Code, which wins over the session's format. */
+	private formatFor(evaluateName: string | undefined, format?: DebugProtocol.ValueFormat): ExpressionFormat {
+		return (evaluateName && this.variableFormats.get(evaluateName)) || (format?.hex ? 'h' : this.valueFormat);
+	}
+
+	/** The runtime reports decimal values, flags are always shown as 0 or 1. */
+	private getDebugVariable(variable: RuntimeVariable, format?: DebugProtocol.ValueFormat): DebugProtocol.Variable {
+		const value = parseInt(variable.value, 10);
 
 		let debugVariable: DebugProtocol.Variable = {
 			name: variable.name,
-			value: variable.value,
+			value: variable.type !== 'flag' && `${value}` === variable.value ? formatValue(value, this.formatFor(variable.evaluateName, format)) : variable.value,
 			type: variable.type,
-			variablesReference: 0,
-			evaluateName: variable.evaluateName
+			variablesReference: variable.children ? this.handles.create({ kind: 'children', variables: variable.children }) : 0,
+			evaluateName: variable.evaluateName,
+			memoryReference: variable.address !== undefined ? formatMemoryReference(variable.address) : undefined
 		};
 
 		(<any>debugVariable).__vscodeVariableMenuContext = 'simple';	// enable context menu contribution
@@ -261,8 +1256,92 @@ export class DebugSession extends LoggingDebugSession {
 		return debugVariable as DebugProtocol.Variable;
 	}
 
+	/** Replaces the runtime's breakpoints with the ones in the program and checks their conditions from now on. */
+	private async sendRuntimeBreakpoints() {
+		await this.runtimeClient.clearBreakpoints();
+		for (const line of this.sourceBreakpoints.lines(this.programPath || '')) {
+			await this.runtimeClient.setBreakPoint(line);
+		}
+		this.runtimeHasBreakpoints = true;
+		this.updateBreakpointLines();
+	}
+
+	/**
+	 * The runtime loaded the program, which verifies its breakpoints.
+	 * If the program changed on disk since the breakpoints were placed, they may also move.
+	 */
+	private async verifyBreakpoints() {
+		const path = this.programPath || '';
+		const before = this.sourceBreakpoints.lines(path).join();
+		const changed = this.sourceBreakpoints.load(path, assemble(this.runtimeClient.sourceText || ''));
+
+		if (this.sourceBreakpoints.lines(path).join() !== before) {
+			await this.sendRuntimeBreakpoints();
+		}
+		for (const breakpoint of changed) {
+			this.sendEvent(new BreakpointEvent('changed', this.createBreakpoint(path, breakpoint)));
+		}
+	}
+
+	private updateBreakpointLines() {
+		this.breakpointConditions = this.sourceBreakpoints.conditions(this.programPath || '');
+		this.breakpointLines = new Set(this.sourceBreakpoints.lines(this.programPath || ''));
+	}
+
+	private createBreakpoint(path: string, breakpoint: ManagedBreakpoint): DebugProtocol.Breakpoint {
+		const loaded = this.sourceBreakpoints.loadedSource;
+
+		return {
+			id: breakpoint.id,
+			verified: breakpoint.verified,
+			line: this.convertDebuggerLineToClient(breakpoint.line),
+			source: this.createSource(path),
+			message: breakpoint.verified || loaded === undefined ? undefined
+				: loaded === path ? 'There is no instruction to stop at' : `'${basename(path)}' is not the program being debugged`
+		};
+	}
+
+	/** The program the runtime loaded, other sources are read and assembled, undefined if they cannot be read. */
+	private async programOf(path: string): Promise<MiscProgram | undefined> {
+		if (path === this.runtimeClient.sourcePath && this.runtimeClient.sourceText !== undefined) {
+			return assemble(this.runtimeClient.sourceText);
+		}
+		try {
+			return assemble(await this.fileAccessor.readFile(path));
+		} catch (error) {
+			return undefined;
+		}
+	}
+
 	private createSource(filePath: string): Source {
 		return new Source(basename(filePath), this.convertDebuggerPathToClient(filePath), undefined, undefined, 'mock-adapter-data');
 	}
 }
 
+/** Memory references are addresses written like MISC immediates, e.g. '#1F'. */
+function formatMemoryReference(address: number): string {
+	return `#${address.toString(16).toUpperCase()}`;
+}
+
+/** VS Code parses instruction addresses, so they are written in the '0x' notation it understands, e.g. '0x28'. */
+function formatInstructionReference(address: number): string {
+	return `0x${address.toString(16).toUpperCase()}`;
+}
+
+/** Accepts memory and instruction references. */
+function parseMemoryReference(memoryReference: string): number | undefined {
+	const match = /^(?:#|0x)([0-9A-F]+)$/i.exec(memoryReference);
+	return match ? parseInt(match[1], 16) : undefined;
+}
+
+/** The launch and attach attributes for waiting on a runtime that is still starting. */
+function retryPolicy(args: { connectAttempts?: number, connectRetryDelay?: number }): RuntimeRetryPolicy {
+	const delay = args.connectRetryDelay ?? DEFAULT_RETRY_POLICY.delay;
+
+	// a longer delay than the default limit is not shortened
+	return {
+		attempts: args.connectAttempts ?? DEFAULT_RETRY_POLICY.attempts,
+		delay,
+		maxDelay: Math.max(delay, DEFAULT_RETRY_POLICY.maxDelay)
+	};
+}
@@ -0,0 +1,488 @@
+import { assemble, encodeInstruction, formatAddress, INSTRUCTION_SIZE, MEMORY_SIZE, MiscAccess, MiscMachine, MiscStepResult, REGISTER_COUNT, REGISTER_MAX } from './miscMachine';
+import { RuntimeController, RuntimeHandler, RuntimeMethod, RuntimeNotification } from './runtimeTransport';
+
+/** How many instructions 'Continue' executes before giving other work a chance to run. */
+const INSTRUCTIONS_PER_SLICE = 1000;
+/** How many instructions can be stepped back if the launch configuration does not say. */
+const DEFAULT_HISTORY_LIMIT = 10000;
+
+/**
+ * An in-process replacement for the MISC runtime server, reached through the InMemoryTransport.
+ * It answers the same controller/endpoint requests as the HTTP API (with the same capitalized body keys)
+ * and reports asynchronous stops through 'notify' instead of the event stream.
+ */
+export class EmbeddedRuntime implements RuntimeHandler {
+
+	private machine: MiscMachine | undefined;
+	private breakpointLines = new Map<number, number>();
+	private instructionBreakpoints = new Map<number, number>();
+	private dataBreakpoints: { id: number, target: string, accessType: string }[] = [];
+	private nextBreakpointId = 1;
+	private running = false;
+
+	constructor(private notify: (notification: RuntimeNotification) => void) {
+	}
+
+	public handle(method: RuntimeMethod, controller: RuntimeController, endpoint: string, body?: any): Promise<any> {
+		return new Promise((resolve, _) => {
+			switch (`${method} ${controller}/${endpoint}`) {
+				case 'POST Debug/Load': resolve(this.load(body?.File || '')); break;
+				case 'POST Debug/Start': resolve(this.start(!!body?.StopOnEntry, body?.HistoryLimit)); break;
+				case 'GET Debug/Status': resolve({ error: 'The embedded runtime cannot be attached to' }); break;
+				case 'PATCH Debug/Step': resolve(this.step()); break;
+				case 'PATCH Debug/Continue': resolve(this.continue()); break;
+				case 'PATCH Debug/StepOver': resolve(this.stepOver()); break;
+				case 'PATCH Debug/StepOut': resolve(this.stepOut()); break;
+				case 'PATCH Debug/Pause': resolve(this.pause()); break;
+				case 'PATCH Debug/StepBack': resolve(this.stepBack()); break;
+				case 'PATCH Debug/ReverseContinue': resolve(this.reverseContinue()); break;
+				case 'POST Debug/Disassemble': resolve(this.disassemble(body?.Address, body?.Count)); break;
+				case 'GET Breakpoint/Get': resolve(this.getBreakpoints()); break;
+				case 'POST Breakpoint/Set': resolve(this.setBreakpoint(body?.Line)); break;
+				case 'PATCH Breakpoint/Clear': resolve(this.clearBreakpoints()); break;
+				case 'POST Breakpoint/SetData': resolve(this.setDataBreakpoint(`${body?.Target}`, body?.AccessType)); break;
+				case 'PATCH Breakpoint/ClearData': resolve(this.clearDataBreakpoints()); break;
+				case 'POST Breakpoint/SetInstruction': resolve(this.setInstructionBreakpoint(body?.Address)); break;
+				case 'PATCH Breakpoint/ClearInstruction': resolve(this.clearInstructionBreakpoints()); break;
+				case 'GET Stackframe/Get': resolve(this.getStackFrames()); break;
+				case 'GET Variable/Get': resolve(this.getVariables()); break;
+				case 'POST Variable/Set': resolve(this.setVariable(`${body?.Name}`, body?.Value)); break;
+				case 'POST Memory/Read': resolve(this.readMemory(body?.Address, body?.Count)); break;
+				case 'POST Memory/Write': resolve(this.writeMemory(body?.Address, body?.Data)); break;
+				default: resolve({ error: `Unknown request ${method} ${controller}/${endpoint}` });
+			}
+		});
+	}
+
+	public dispose() {
+		this.running = false;
+		this.machine = undefined;
+	}
+
+	private load(source: string) {
+		const program = assemble(source);
+
+		if (program.errors.length) {
+			const { line, column, message } = program.errors[0];
+			return { error: message, line, column };
+		}
+
+		this.running = false;
+		this.machine = new MiscMachine(program, (text, line) => this.notify({ reason: 'output', message: text, line }));
+		return {};
+	}
+
+	private start(stopOnEntry: boolean, historyLimit: number = DEFAULT_HISTORY_LIMIT) {
+		if (!this.machine) {
+			return { error: 'No program loaded' };
+		}
+
+		this.machine.setHistoryLimit(historyLimit);
+
+		if (stopOnEntry) {
+			return { event: 'stopOnEntry' };
+		}
+
+		this.run(false);
+		return {};
+	}
+
+	private step() {
+		if (!this.machine) {
+			return { error: 'No program loaded' };
+		}
+
+		const result = this.machine.step();
+		if (result.kind === 'ok') {
+			const dataBreakpoint = this.findDataBreakpoint(this.machine.accesses);
+			return dataBreakpoint
+				? { event: 'stopOnDataBreakpoint', breakpointId: dataBreakpoint.id, access: dataBreakpoint.access }
+				: { event: 'stopOnStep' };
+		}
+
+		this.notifyStopped(result);
+		return {};
+	}
+
+	private continue() {
+		if (!this.machine) {
+			return { error: 'No program loaded' };
+		}
+
+		// the instruction under a breakpoint we are currently stopped at must not stop us again
+		this.run(true);
+		return {};
+	}
+
+	private stepOver() {
+		if (!this.machine) {
+			return { error: 'No program loaded' };
+		}
+
+		if (this.machine.currentInstruction?.opcode !== 'CALL') {
+			return this.step();
+		}
+
+		// run the called routine until execution is back at the current call depth
+		const depth = this.machine.callStack.length;
+		this.run(true, machine => machine.callStack.length <= depth);
+		return {};
+	}
+
+	private stepOut() {
+		if (!this.machine) {
+			return { error: 'No program loaded' };
+		}
+
+		const depth = this.machine.callStack.length;
+		this.run(true, machine => machine.callStack.length < depth);
+		return {};
+	}
+
+	/** Stops a running program before its next instruction, which is the case between two slices. */
+	private pause() {
+		if (!this.machine) {
+			return { error: 'No program loaded' };
+		}
+
+		this.running = false;
+		return { event: 'stopOnPause' };
+	}
+
+	/** Without history the program stays where it is. */
+	private stepBack() {
+		if (!this.machine) {
+			return { error: 'No program loaded' };
+		}
+
+		this.machine.stepBack();
+		return { event: 'stopOnStep' };
+	}
+
+	/**
+	 * Undoes instructions in slices until the program is back at a breakpoint,
+	 * an undone instruction triggers a data breakpoint or the history is used up.
+	 */
+	private reverseContinue() {
+		if (!this.machine) {
+			return { error: 'No program loaded' };
+		}
+
+		const machine = this.machine;
+		this.running = true;
+
+		const slice = () => {
+			for (let i = 0; i < INSTRUCTIONS_PER_SLICE; i++) {
+				if (!this.running || machine !== this.machine) {
+					return;
+				}
+
+				if (!machine.stepBack()) {
+					this.running = false;
+					this.notify({ reason: 'step' });
+					return;
+				}
+
+				const dataBreakpoint = this.findDataBreakpoint(machine.accesses);
+				if (dataBreakpoint) {
+					this.running = false;
+					this.notify({ reason: 'data', breakpointId: dataBreakpoint.id, access: dataBreakpoint.access });
+					return;
+				}
+
+				if (this.hasBreakpoint(machine)) {
+					this.running = false;
+					this.notify({ reason: 'breakpoint' });
+					return;
+				}
+			}
+			setTimeout(slice, 0);
+		};
+
+		setTimeout(slice, 0);
+		return {};
+	}
+
+	/**
+	 * Executes instructions in slices until a breakpoint is hit, the program ends
+	 * or 'stepCompleted' returns true after an instruction.
+	 */
+	private run(skipBreakpoint: boolean, stepCompleted?: (machine: MiscMachine) => boolean) {
+		const machine = this.machine!;
+		this.running = true;
+
+		const slice = () => {
+			for (let i = 0; i < INSTRUCTIONS_PER_SLICE; i++) {
+				if (!this.running || machine !== this.machine) {
+					return;
+				}
+
+				if (!skipBreakpoint && this.hasBreakpoint(machine)) {
+					this.running = false;
+					this.notify({ reason: 'breakpoint' });
+					return;
+				}
+				skipBreakpoint = false;
+
+				const result = machine.step();
+				if (result.kind !== 'ok') {
+					this.running = false;
+					this.notifyStopped(result);
+					return;
+				}
+
+				const dataBreakpoint = this.findDataBreakpoint(machine.accesses);
+				if (dataBreakpoint) {
+					this.running = false;
+					this.notify({ reason: 'data', breakpointId: dataBreakpoint.id, access: dataBreakpoint.access });
+					return;
+				}
+
+				if (stepCompleted?.(machine)) {
+					this.running = false;
+					this.notify({ reason: 'step' });
+					return;
+				}
+			}
+			setTimeout(slice, 0);
+		};
+
+		setTimeout(slice, 0);
+	}
+
+	/** Whether a source or instruction breakpoint is set at the instruction the machine executes next. */
+	private hasBreakpoint(machine: MiscMachine): boolean {
+		const line = machine.currentInstruction?.line;
+		return line !== undefined && this.breakpointLines.has(line) || this.instructionBreakpoints.has(machine.pc);
+	}
+
+	private notifyStopped(result: MiscStepResult) {
+		if (result.kind === 'halt') {
+			this.notify({ reason: 'halt' });
+		} else if (result.kind === 'fault') {
+			this.notify({ reason: 'fault', message: result.message });
+		}
+	}
+
+	private getBreakpoints() {
+		return Array.from(this.breakpointLines.keys()).map(line => ({ line }));
+	}
+
+	private setBreakpoint(line: number) {
+		const id = this.nextBreakpointId++;
+		this.breakpointLines.set(line, id);
+
+		const verified = !!this.machine?.program.instructions.some(instruction => instruction.line === line);
+		return { verified, line, id };
+	}
+
+	private clearBreakpoints() {
+		this.breakpointLines.clear();
+		return {};
+	}
+
+	private setInstructionBreakpoint(address: number) {
+		const id = this.nextBreakpointId++;
+		this.instructionBreakpoints.set(address, id);
+
+		const verified = !!this.machine?.instructionAt(address);
+		return { verified, address, id };
+	}
+
+	private clearInstructionBreakpoints() {
+		this.instructionBreakpoints.clear();
+		return {};
+	}
+
+	/** Registers are watched by name, memory by the address of any byte of the accessed word. */
+	private setDataBreakpoint(target: string, accessType: string) {
+		const id = this.nextBreakpointId++;
+		const register = /^R(\d+)$/i.exec(target);
+		const address = /^#([0-9A-F]+)$/i.exec(target);
+
+		let verified = false;
+		if (register) {
+			const index = parseInt(register[1], 10);
+			verified = index >= 1 && index <= REGISTER_COUNT;
+			target = `R${index}`;
+		} else if (address) {
+			const value = parseInt(address[1], 16);
+			verified = value < MEMORY_SIZE;
+			target = formatAddress(value);
+		}
+
+		if (verified) {
+			this.dataBreakpoints.push({ id, target, accessType });
+		}
+		return { verified, id };
+	}
+
+	private clearDataBreakpoints() {
+		this.dataBreakpoints = [];
+		return {};
+	}
+
+	private findDataBreakpoint(accesses: MiscAccess[]): { id: number, access: MiscAccess } | undefined {
+		for (const access of accesses) {
+			for (const breakpoint of this.dataBreakpoints) {
+				if (breakpoint.accessType !== 'readWrite' && breakpoint.accessType !== access.type) {
+					continue;
+				}
+				if (breakpoint.target === access.target || isSameWord(breakpoint.target, access.target)) {
+					return { id: breakpoint.id, access };
+				}
+			}
+		}
+		return undefined;
+	}
+
+	private getStackFrames() {
+		const machine = this.machine;
+		if (!machine) {
+			return { frames: [], count: 0 };
+		}
+
+		const frames = [{ name: this.frameName(machine.callStack.length - 1), line: machine.currentInstruction?.line || 0, address: machine.pc }];
+
+		for (let i = machine.callStack.length - 1; i >= 0; i--) {
+			const address = machine.callStack[i].returnAddress - INSTRUCTION_SIZE;
+			frames.push({ name: this.frameName(i - 1), line: machine.instructionAt(address)?.line || 0, address });
+		}
+
+		return {
+			frames: frames.map((frame, index) => ({ ...frame, index })),
+			count: frames.length
+		};
+	}
+
+	/** Routines are named after the label at their first instruction, if there is one. */
+	private frameName(callIndex: number) {
+		const call = this.machine?.callStack[callIndex];
+		if (!call) {
+			return 'main';
+		}
+
+		for (const [label, address] of this.machine!.program.labels) {
+			if (address === call.target) {
+				return label;
+			}
+		}
+		return formatAddress(call.target);
+	}
+
+	/** The instructions from 'address' on, as far as the program reaches. */
+	private disassemble(address: number, count: number) {
+		const instructions: any[] = [];
+		const program = this.machine?.program;
+
+		for (let i = 0; i < count && program; i++) {
+			const instruction = this.machine!.instructionAt(address + i * INSTRUCTION_SIZE);
+			if (!instruction) {
+				break;
+			}
+
+			const symbol = Array.from(program.labels).find(([, labelAddress]) => labelAddress === instruction.address)?.[0];
+			instructions.push({
+				address: instruction.address,
+				bytes: encodeInstruction(instruction),
+				text: [instruction.opcode, ...instruction.operands.map(operand => operand.text)].join(' '),
+				line: instruction.line,
+				symbol
+			});
+		}
+		return { instructions };
+	}
+
+	/**
+	 * Registers the program uses in '[Rn]' operands hold addresses, as long as their value lies within the memory.
+	 * The status register SR comes with its flags Z (bit 0), C (bit 1) and N (bit 2) as children.
+	 */
+	private getVariables() {
+		const machine = this.machine;
+		const registers = machine?.registers || [];
+		const variables: any[] = [];
+
+		const addressRegisters = new Set<number>();
+		machine?.program.instructions.forEach(instruction => instruction.operands.forEach(operand => operand.indirect && addressRegisters.add(operand.value)));
+
+		for (let i = 1; i <= REGISTER_COUNT; i++) {
+			const value = registers[i] || 0;
+			variables.push({ name: `R${i}`, value: `${value}`, type: 'register', evaluateName: `R${i}`, address: addressRegisters.has(i) && value < MEMORY_SIZE ? value : undefined });
+		}
+		variables.push({ name: 'SP', value: `${machine?.sp ?? MEMORY_SIZE}`, type: 'address', evaluateName: 'SP', address: machine?.sp ?? MEMORY_SIZE });
+		variables.push({ name: 'PC', value: `${machine?.pc || 0}`, type: 'address', evaluateName: 'PC', address: machine?.pc || 0 });
+
+		// the status register holds one flag per bit
+		const flags = [
+			{ name: 'Z', set: !!machine?.flags.zero },
+			{ name: 'C', set: !!machine?.flags.carry },
+			{ name: 'N', set: !!machine?.flags.negative }
+		];
+		variables.push({
+			name: 'SR',
+			value: `${flags.reduce((sr, flag, bit) => flag.set ? sr | (1 << bit) : sr, 0)}`,
+			type: 'status',
+			evaluateName: 'SR',
+			children: flags.map((flag, bit) => ({ name: flag.name, value: flag.set ? '1' : '0', type: 'flag', evaluateName: `SR >> ${bit} & 1` }))
+		});
+
+		return variables;
+	}
+
+	/** Only the general purpose registers can be changed, SP and PC are maintained by the program. */
+	private setVariable(name: string, value: number) {
+		if (!this.machine) {
+			return { error: 'No program loaded' };
+		}
+
+		const register = /^R(\d+)$/i.exec(name);
+		const index = register ? parseInt(register[1], 10) : 0;
+		if (index < 1 || index > REGISTER_COUNT) {
+			return { error: `'${name}' cannot be changed, only R1 to R${REGISTER_COUNT}` };
+		}
+		if (!Number.isInteger(value) || value < 0 || value > REGISTER_MAX) {
+			return { error: `Value ${value} does not fit into a register` };
+		}
+
+		this.machine.registers[index] = value;
+		return this.getVariables()[index - 1];
+	}
+
+	/** Bytes outside of the memory are reported as unreadable. */
+	private readMemory(address: number, count: number) {
+		const memory = this.machine?.memory || new Uint8Array(0);
+		const start = Math.min(Math.max(address, 0), memory.length);
+		const end = Math.min(Math.max(address + count, start), memory.length);
+		const data = memory.slice(start, end);
+
+		return {
+			address: start,
+			data: Buffer.from(data).toString('base64'),
+			unreadableBytes: Math.max(count - data.length, 0)
+		};
+	}
+
+	private writeMemory(address: number, data: string) {
+		if (!this.machine) {
+			return { error: 'No program loaded' };
+		}
+
+		const bytes = Buffer.from(data || '', 'base64');
+		if (address < 0 || address + bytes.length > MEMORY_SIZE) {
+			return { error: `Memory ends at ${formatAddress(MEMORY_SIZE - 1)}` };
+		}
+
+		this.machine.memory.set(bytes, address);
+		return { bytesWritten: bytes.length };
+	}
+}
+
+/** Whether the byte address 'target' lies in the word starting at 'wordAddress'. */
+function isSameWord(target: string, wordAddress: string): boolean {
+	if (!target.startsWith('#') || !wordAddress.startsWith('#')) {
+		return false;
+	}
+	const address = parseInt(target.substring(1), 16);
+	const word = parseInt(wordAddress.substring(1), 16);
+	return address === word || address === word + 1;
+}
@@ -0,0 +1,140 @@
+/**
+ * Execution counts for optimizing MISC programs.
+ * The debug adapter fills a profile while it executes the program one instruction at a time,
+ * the extension shows the counts next to the source lines and writes them into a report.
+ */
+
+export interface LineProfile {
+	/** 1 based source line */
+	line: number;
+	executions: number;
+	/** only if the runtime reports how many cycles its instructions take */
+	cycles?: number;
+}
+
+/** A routine entered by CALL, its counts include the routines it calls. */
+export interface RoutineProfile {
+	/** the label at the CALL target or its address */
+	name: string;
+	/** only if the runtime reports the addresses of stack frames */
+	address?: number;
+	calls: number;
+	instructions: number;
+	cycles?: number;
+}
+
+/** What the debug adapter sends to the extension in its 'profile' event. */
+export interface ProfileSummary {
+	/** path of the profiled program */
+	program: string;
+	instructions: number;
+	cycles?: number;
+	/** ordered by line */
+	lines: LineProfile[];
+	/** ordered by instructions, the most expensive routine first */
+	routines: RoutineProfile[];
+}
+
+/** How many lines the report lists. */
+const HOT_LINES = 20;
+
+export class ExecutionProfile {
+
+	private lines = new Map<number, LineProfile>();
+	private routines = new Map<string, RoutineProfile>();
+	// the routines on the call stack, innermost last
+	private activeRoutines: RoutineProfile[] = [];
+	private instructions = 0;
+	private cycles: number | undefined;
+
+	/** Counts an instruction on 'line' for the line and for every routine that is currently active. */
+	public record(line: number) {
+		this.instructions++;
+		this.lineProfile(line).executions++;
+		for (const routine of new Set(this.activeRoutines)) {
+			routine.instructions++;
+		}
+	}
+
+	/** Adds the cycles the runtime reported for the instruction on 'line'. */
+	public addCycles(line: number, cycles: number) {
+		const profile = this.lineProfile(line);
+		profile.cycles = (profile.cycles || 0) + cycles;
+		this.cycles = (this.cycles || 0) + cycles;
+		for (const routine of new Set(this.activeRoutines)) {
+			routine.cycles = (routine.cycles || 0) + cycles;
+		}
+	}
+
+	/** A CALL to the routine 'name' at 'address' was executed. */
+	public enter(name: string, address?: number) {
+		let routine = this.routines.get(name);
+		if (!routine) {
+			routine = { name, address, calls: 0, instructions: 0 };
+			this.routines.set(name, routine);
+		}
+		routine.calls++;
+		this.activeRoutines.push(routine);
+	}
+
+	/** A RET was executed. Returning from a routine entered before profiling started has no effect. */
+	public leave() {
+		this.activeRoutines.pop();
+	}
+
+	public summary(program: string): ProfileSummary {
+		return {
+			program,
+			instructions: this.instructions,
+			cycles: this.cycles,
+			lines: Array.from(this.lines.values()).sort((a, b) => a.line - b.line),
+			routines: Array.from(this.routines.values()).sort((a, b) => b.instructions - a.instructions)
+		};
+	}
+
+	private lineProfile(line: number): LineProfile {
+		let profile = this.lines.get(line);
+		if (!profile) {
+			profile = { line, executions: 0 };
+			this.lines.set(line, profile);
+		}
+		return profile;
+	}
+}
+
+/** A Markdown report with the totals, the most executed lines and the routines. 'source' is the text of the program. */
+export function formatProfileReport(summary: ProfileSummary, source: string): string {
+	const sourceLines = source.split(/\r?\n/);
+	const withCycles = summary.cycles !== undefined;
+	const share = (count: number) => `${summary.instructions ? (100 * count / summary.instructions).toFixed(1) : '0.0'}%`;
+	const code = (line: number) => `\`${(sourceLines[line - 1] || '').split(';')[0].trim().replace(/`/g, '')}\``;
+
+	const hotLines = summary.lines.slice().sort((a, b) => b.executions - a.executions || a.line - b.line).slice(0, HOT_LINES);
+
+	const report = [
+		`# Profile of ${summary.program}`,
+		'',
+		`${summary.instructions} instructions executed${withCycles ? ` in ${summary.cycles} cycles` : ''}.`,
+		'',
+		'## Lines',
+		'',
+		`| Line | Instruction | Executions | Share |${withCycles ? ' Cycles |' : ''}`,
+		`| ---: | --- | ---: | ---: |${withCycles ? ' ---: |' : ''}`,
+		...hotLines.map(line => `| ${line.line} | ${code(line.line)} | ${line.executions} | ${share(line.executions)} |${withCycles ? ` ${line.cycles || 0} |` : ''}`),
+		'',
+		'## Routines',
+		''
+	];
+
+	if (summary.routines.length) {
+		report.push(
+			`| Routine | Address | Calls | Instructions | Share |${withCycles ? ' Cycles |' : ''}`,
+			`| --- | ---: | ---: | ---: | ---: |${withCycles ? ' ---: |' : ''}`,
+			...summary.routines.map(routine => `| ${routine.name} | ${routine.address !== undefined ? `#${routine.address.toString(16).toUpperCase()}` : ''} | ${routine.calls} | ${routine.instructions} | ${share(routine.instructions)} |${withCycles ? ` ${routine.cycles || 0} |` : ''}`)
+		);
+	} else {
+		report.push('The program executed no CALL.');
+	}
+
+	return report.map(line => `${line}\n`).join('');
+}
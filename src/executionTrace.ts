@@ -0,0 +1,116 @@
+/**
+ * A record of executed instructions for bug reports.
+ * The debug adapter fills it while it executes the program one instruction at a time,
+ * comparing the registers reported by the runtime before and after every step.
+ */
+
+import { RuntimeVariable } from './runtimeClient';
+
+/** How many instructions a trace keeps, older ones are dropped. */
+export const TRACE_LIMIT = 100000;
+
+export interface TraceChange {
+	name: string;
+	oldValue: string;
+	newValue: string;
+}
+
+export interface TraceEntry {
+	/** number of the instruction since recording started, counting from 0 */
+	index: number;
+	pc: number;
+	/** 1 based source line */
+	line: number;
+	opcode: string;
+	/** the registers the instruction changed, the program counter is left out */
+	changes: TraceChange[];
+}
+
+export type TraceFormat = 'jsonl' | 'csv';
+
+export class ExecutionTrace {
+
+	// a ring buffer of the most recent instructions
+	private buffer: TraceEntry[] = [];
+	private end = 0;
+	private size = 0;
+	private nextIndex = 0;
+
+	constructor(private limit = TRACE_LIMIT) {
+	}
+
+	/** The recorded instructions, oldest first. */
+	public get entries(): TraceEntry[] {
+		const entries: TraceEntry[] = [];
+		for (let i = this.size; i > 0; i--) {
+			entries.push(this.buffer[(this.end - i + this.limit) % this.limit]);
+		}
+		return entries;
+	}
+
+	public get length(): number {
+		return this.size;
+	}
+
+	/** Adds the instruction that turned the registers 'before' into 'after'. */
+	public record(line: number, opcode: string, before: RuntimeVariable[], after: RuntimeVariable[]) {
+		const oldValues = new Map(before.map(variable => [variable.name, variable.value]));
+		const changes: TraceChange[] = [];
+
+		for (const variable of after) {
+			const oldValue = oldValues.get(variable.name);
+			if (variable.name !== 'PC' && oldValue !== undefined && oldValue !== variable.value) {
+				changes.push({ name: variable.name, oldValue, newValue: variable.value });
+			}
+		}
+
+		this.buffer[this.end] = { index: this.nextIndex++, pc: parseInt(oldValues.get('PC') || '0', 10), line, opcode, changes };
+		this.end = (this.end + 1) % this.limit;
+		this.size = Math.min(this.size + 1, this.limit);
+	}
+
+	/**
+	 * Drops the instructions that stepping back undid, so the program executes the instruction at 'pc' next.
+	 * That undid the most recent instruction recorded at 'pc' and everything after it, or the whole trace if there is none.
+	 */
+	public rewind(pc: number | undefined) {
+		let undone = 0;
+		while (undone < this.size && this.buffer[(this.end - undone - 1 + this.limit) % this.limit].pc !== pc) {
+			undone++;
+		}
+		undone = Math.min(undone + 1, this.size);
+
+		this.end = (this.end - undone + this.limit) % this.limit;
+		this.size -= undone;
+		this.nextIndex -= undone;
+	}
+
+	public clear() {
+		this.buffer = [];
+		this.end = 0;
+		this.size = 0;
+		this.nextIndex = 0;
+	}
+
+	public export(format: TraceFormat): string {
+		return format === 'csv' ? this.toCsv() : this.toJsonLines();
+	}
+
+	/** One JSON object per line and instruction. */
+	public toJsonLines(): string {
+		return this.entries.map(entry => `${JSON.stringify(entry)}\n`).join('');
+	}
+
+	/** One row per instruction, the changes are listed like 'R1=1->2 SP=1024->1022'. */
+	public toCsv(): string {
+		const rows = this.entries.map(entry => [
+			entry.index,
+			entry.pc,
+			entry.line,
+			entry.opcode,
+			entry.changes.map(change => `${change.name}=${change.oldValue}->${change.newValue}`).join(' ')
+		].join(','));
+
+		return ['index,pc,line,opcode,changes', ...rows].map(row => `${row}\n`).join('');
+	}
+}
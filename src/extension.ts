@@ -13,6 +13,7 @@ import { platform } from 'process';
 import { ProviderResult } from 'vscode';
 import { DebugSession } from './debugSession';
 import { activateDebugger, workspaceFileAccessor } from './activateDebugger';
+import { activateLanguageFeatures } from './languageFeatures';
 
 /*
  * The compile time flag 'runMode' controls how the debug adapter is run.
@@ -22,6 +23,8 @@ const runMode: 'external' | 'server' | 'namedPipeServer' | 'inline' = 'inline';
 
 export function activate(context: vscode.ExtensionContext) {
 
+	activateLanguageFeatures(context);
+
 	// debug adapters can be run in different ways by using a vscode.DebugAdapterDescriptorFactory:
 	switch (runMode) {
 		case 'server':
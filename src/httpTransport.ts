@@ -0,0 +1,129 @@
+import { EventEmitter } from 'events';
+import fetch, { Headers, RequestInit } from 'node-fetch';
+import { Readable } from 'stream';
+import { RuntimeCancellation, RuntimeController, RuntimeMethod, RuntimeNotification, RuntimeTransport } from './runtimeTransport';
+
+/**
+ * Talks to the REST API of a MISC runtime server.
+ * Notifications arrive through the server-sent event stream 'Debug/Events'.
+ */
+export class HttpTransport extends EventEmitter implements RuntimeTransport {
+
+	readonly endpoint: string;
+	private eventStream: Readable | undefined;
+	private eventsConnected = false;
+
+	constructor(host: string, port: number) {
+		super();
+		this.endpoint = `http://${host}:${port}`;
+	}
+
+	public request(method: RuntimeMethod, controller: RuntimeController, endpoint: string, body?: any, cancellation?: RuntimeCancellation): Promise<any> {
+		const url = `${this.endpoint}/${controller}/${endpoint}`;
+		return abortable(cancellation, signal =>
+			fetch(url, { method, body: body ? JSON.stringify(body) : undefined, headers: new Headers({ 'content-type': 'application/json' }), signal })
+				.then(response => response.text().then(text => parseResponse(response.ok, `${response.status} ${response.statusText}`, text))));
+	}
+
+	public isReady(cancellation?: RuntimeCancellation): Promise<boolean> {
+		return abortable(cancellation, signal => fetch(`${this.endpoint}/Debug/Status`, { signal }))
+			.then(response => response.ok)
+			.catch(() => false);
+	}
+
+	/**
+	 * Opens the event stream.
+	 * Every 'data:' line carries a JSON encoded RuntimeNotification.
+	 * Rejects if the runtime cannot be reached or does not offer the stream.
+	 */
+	public async connect(cancellation?: RuntimeCancellation): Promise<void> {
+		if (this.eventsConnected) {
+			return;
+		}
+
+		const url = `${this.endpoint}/Debug/Events`;
+		const response = await abortable(cancellation, signal => fetch(url, { headers: new Headers({ 'accept': 'text/event-stream' }), signal }));
+		if (!response.ok) {
+			throw new Error(`the runtime answered ${url} with ${response.status} ${response.statusText}, so it cannot report stops`);
+		}
+
+		let buffer = '';
+
+		const eventStream = response.body as Readable;
+		this.eventStream = eventStream;
+		this.eventsConnected = true;
+
+		eventStream.on('data', (chunk: Buffer | string) => {
+			buffer += chunk.toString();
+
+			const messages = buffer.split(/\r?\n\r?\n/);
+			buffer = messages.pop() || '';
+
+			for (const message of messages) {
+				try {
+					const data = parseEventMessage(message);
+					if (data) {
+						this.emit('notification', data);
+					}
+				} catch (error) {
+					this.emit('error', new Error(`Ignored an event the runtime sent that is not JSON: ${message}`));
+				}
+			}
+		});
+		eventStream.on('end', () => {
+			// the runtime went away while we were still listening
+			if (this.eventsConnected) {
+				this.eventsConnected = false;
+				this.emit('close');
+			}
+		});
+		eventStream.on('error', error => this.emit('error', error));
+	}
+
+	public dispose(): void {
+		this.eventsConnected = false;
+		this.eventStream?.destroy();
+		this.eventStream = undefined;
+	}
+}
+
+/**
+ * Runs a fetch that is aborted when 'cancellation' is cancelled.
+ * Hosts without AbortController let the fetch finish, the result is ignored then.
+ */
+function abortable<T>(cancellation: RuntimeCancellation | undefined, run: (signal?: RequestInit['signal']) => Promise<T>): Promise<T> {
+	if (!cancellation || typeof AbortController === 'undefined') {
+		return run(undefined);
+	}
+
+	const controller = new AbortController();
+	const stopListening = cancellation.onCancel(() => controller.abort());
+	return run(controller.signal as RequestInit['signal']).then(
+		value => { stopListening(); return value; },
+		error => { stopListening(); throw error; });
+}
+
+/**
+ * The runtime answered, so problems with the answer are errors of the request, not of the connection.
+ * A failed request carries an 'error' like the ones the runtime reports itself, or the HTTP status if it has none.
+ */
+function parseResponse(ok: boolean, status: string, text: string): any {
+	let data: any;
+	try {
+		data = text ? JSON.parse(text) : {};
+	} catch (error) {
+		return { error: ok ? `The runtime answered with something that is not JSON: ${text}` : status };
+	}
+	return ok || data?.error ? data : { error: status };
+}
+
+/** Throws if the data of the message is not JSON. */
+function parseEventMessage(message: string): RuntimeNotification | undefined {
+	const data = message
+		.split(/\r?\n/)
+		.filter(line => line.startsWith('data:'))
+		.map(line => line.substring(5).trim())
+		.join('\n');
+
+	return data ? JSON.parse(data) : undefined;
+}
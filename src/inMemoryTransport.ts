@@ -0,0 +1,33 @@
+import { EventEmitter } from 'events';
+import { RuntimeController, RuntimeHandler, RuntimeMethod, RuntimeNotification, RuntimeTransport } from './runtimeTransport';
+
+/**
+ * Hands requests to a RuntimeHandler living in the same process.
+ * The handler is created with a callback through which it pushes its notifications.
+ */
+export class InMemoryTransport extends EventEmitter implements RuntimeTransport {
+
+	readonly endpoint = 'in-memory';
+	private handler: RuntimeHandler;
+
+	constructor(createHandler: (notify: (notification: RuntimeNotification) => void) => RuntimeHandler) {
+		super();
+		this.handler = createHandler(notification => this.emit('notification', notification));
+	}
+
+	public request(method: RuntimeMethod, controller: RuntimeController, endpoint: string, body?: any): Promise<any> {
+		return this.handler.handle(method, controller, endpoint, body);
+	}
+
+	public isReady(): Promise<boolean> {
+		return Promise.resolve(true);
+	}
+
+	public connect(): Promise<void> {
+		return Promise.resolve();
+	}
+
+	public dispose(): void {
+		this.handler.dispose?.();
+	}
+}
@@ -0,0 +1,98 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import { assemble, jumpTarget, MiscProgram } from './miscMachine';
+
+/**
+ * Editor support for MISC source that does not need a runtime:
+ * assembler errors in the Problems panel while typing, labels as document symbols
+ * and go to definition for labels and the targets of BZ and CALL.
+ * Everything is based on the assembler of the embedded runtime, so the editor reports exactly what loading would report.
+ */
+export function activateLanguageFeatures(context: vscode.ExtensionContext) {
+
+	const diagnostics = vscode.languages.createDiagnosticCollection('misc');
+	const programs = new ProgramCache();
+
+	const validate = (document: vscode.TextDocument) => {
+		if (document.languageId === 'misc') {
+			diagnostics.set(document.uri, programs.get(document).errors.map(error => {
+				const range = new vscode.Range(error.line, error.column, error.line, error.column + error.length);
+				const diagnostic = new vscode.Diagnostic(range, error.message, vscode.DiagnosticSeverity.Error);
+				diagnostic.source = 'MISC';
+				return diagnostic;
+			}));
+		}
+	};
+
+	vscode.workspace.textDocuments.forEach(validate);
+
+	context.subscriptions.push(
+		diagnostics,
+		vscode.workspace.onDidOpenTextDocument(validate),
+		vscode.workspace.onDidChangeTextDocument(e => validate(e.document)),
+		vscode.workspace.onDidCloseTextDocument(document => {
+			diagnostics.delete(document.uri);
+			programs.delete(document);
+		}),
+
+		vscode.languages.registerDocumentSymbolProvider('misc', {
+			provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+				const program = programs.get(document);
+
+				// labels that are called are routines, the others mark places to jump to
+				const called = new Set(program.instructions.filter(i => i.opcode === 'CALL').map(i => i.operands[0].value));
+
+				return program.labelDefinitions.map(label => {
+					const range = new vscode.Range(label.line, label.column, label.line, label.column + label.name.length);
+					const kind = called.has(label.address) ? vscode.SymbolKind.Function : vscode.SymbolKind.Key;
+					return new vscode.DocumentSymbol(label.name, `#${label.address.toString(16).toUpperCase()}`, kind, document.lineAt(label.line).range, range);
+				});
+			}
+		}),
+
+		vscode.languages.registerDefinitionProvider('misc', {
+			provideDefinition(document: vscode.TextDocument, position: vscode.Position): vscode.Definition | undefined {
+				const program = programs.get(document);
+				const instruction = program.instructions.find(i => i.line === position.line);
+				const operand = instruction?.operands.find(o => o.column <= position.character && position.character <= o.column + o.text.length);
+				if (!instruction || !operand) {
+					return undefined;
+				}
+
+				// a label used as an operand, or the address a jump continues at
+				const label = program.labelDefinitions.find(l => l.name === operand.text);
+				if (label) {
+					return new vscode.Location(document.uri, new vscode.Position(label.line, label.column));
+				}
+				if (operand === jumpTarget(instruction)) {
+					const target = program.instructions.find(i => i.address === operand.value);
+					if (target) {
+						return new vscode.Location(document.uri, document.lineAt(target.line).range);
+					}
+				}
+				return undefined;
+			}
+		})
+	);
+}
+
+/** Assembles every document version once, for diagnostics, symbols and definitions alike. */
+class ProgramCache {
+
+	private programs = new Map<string, { version: number, program: MiscProgram }>();
+
+	public get(document: vscode.TextDocument): MiscProgram {
+		const key = document.uri.toString();
+		let entry = this.programs.get(key);
+		if (!entry || entry.version !== document.version) {
+			entry = { version: document.version, program: assemble(document.getText()) };
+			this.programs.set(key, entry);
+		}
+		return entry.program;
+	}
+
+	public delete(document: vscode.TextDocument) {
+		this.programs.delete(document.uri.toString());
+	}
+}
@@ -0,0 +1,68 @@
+/**
+ * Which source lines of a program executed, for checking that test programs run every branch.
+ * The debug adapter fills it from the stack frames of the runtime while it executes the program one instruction at a time,
+ * the extension writes it in lcov format and as a JSON summary and highlights the lines in the editor.
+ */
+
+export interface LineHits {
+	/** 1 based source line */
+	line: number;
+	hits: number;
+}
+
+/** What the debug adapter sends to the extension in its 'coverage' event. */
+export interface CoverageSummary {
+	/** path of the program */
+	program: string;
+	/** every line with an instruction, ordered by line */
+	lines: LineHits[];
+}
+
+export class LineCoverage {
+
+	private hits = new Map<number, number>();
+
+	/** Lines with an instruction count as not covered until they execute. */
+	public addLines(lines: number[]) {
+		for (const line of lines) {
+			if (!this.hits.has(line)) {
+				this.hits.set(line, 0);
+			}
+		}
+	}
+
+	public hit(line: number) {
+		this.hits.set(line, (this.hits.get(line) || 0) + 1);
+	}
+
+	public summary(program: string): CoverageSummary {
+		return {
+			program,
+			lines: Array.from(this.hits, ([line, hits]) => ({ line, hits })).sort((a, b) => a.line - b.line)
+		};
+	}
+}
+
+/** The lcov tracefile most coverage tools read, usually saved as 'lcov.info'. */
+export function formatLcov(summary: CoverageSummary): string {
+	return [
+		'TN:',
+		`SF:${summary.program}`,
+		...summary.lines.map(line => `DA:${line.line},${line.hits}`),
+		`LF:${summary.lines.length}`,
+		`LH:${summary.lines.filter(line => line.hits > 0).length}`,
+		'end_of_record'
+	].map(line => `${line}\n`).join('');
+}
+
+/** The line totals in the layout of Istanbul's 'coverage-summary.json'. */
+export function formatJsonSummary(summary: CoverageSummary): string {
+	const total = summary.lines.length;
+	const covered = summary.lines.filter(line => line.hits > 0).length;
+	const lines = { total, covered, skipped: 0, pct: total ? Math.round(10000 * covered / total) / 100 : 100 };
+
+	const report: { [file: string]: { lines: typeof lines } } = {};
+	report['total'] = { lines };
+	report[summary.program] = { lines };
+	return `${JSON.stringify(report, undefined, 2)}\n`;
+}
@@ -0,0 +1,243 @@
+/**
+ * The expression language of the Watch view, hovers, the debug console and breakpoint conditions.
+ * Expressions are built from registers, numbers written like MISC immediates, memory words like '[#1F]' or '[R1 + 2]'
+ * and the C operators for arithmetic, bit manipulation, comparison and logic.
+ * A format suffix selects how the result is shown, e.g. 'R1,h' shows R1 in hex.
+ */
+
+import { REGISTER_MAX } from './miscMachine';
+
+/** Register values by upper case name. */
+export type RegisterValues = Map<string, number>;
+
+export interface ExpressionContext {
+	registers: RegisterValues;
+	/** Resolves to the 16 bit memory word at 'address' or to undefined if the address is outside of the memory. */
+	readWord(address: number): Promise<number | undefined>;
+}
+
+/** 'd' decimal, 'h' or 'x' hex, 'b' binary, 's' signed decimal. */
+export type ExpressionFormat = 'd' | 'h' | 'x' | 'b' | 's';
+
+export interface ExpressionResult {
+	value: number;
+	/** the format suffix of the expression, if it has one */
+	format?: ExpressionFormat;
+}
+
+type ExpressionNode =
+	{ kind: 'number', value: number } |
+	{ kind: 'register', name: string } |
+	{ kind: 'memory', address: ExpressionNode } |
+	{ kind: 'unary', operator: string, operand: ExpressionNode } |
+	{ kind: 'binary', operator: string, left: ExpressionNode, right: ExpressionNode };
+
+/** Binary operators from lowest to highest precedence. */
+const BINARY_OPERATORS = [
+	['||'], ['&&'], ['|'], ['^'], ['&'], ['==', '!='], ['<', '<=', '>', '>='], ['<<', '>>'], ['+', '-'], ['*', '/', '%']
+];
+const UNARY_OPERATORS = ['-', '~', '!'];
+
+const TOKEN_REGEXP = /\s*(0b[01]+|#[0-9A-Fa-f]+|\d+|[A-Za-z_][A-Za-z0-9_]*|\|\||&&|==|!=|<=|>=|<<|>>|\S)/y;
+const FORMAT_REGEXP = /^(.*),\s*([dhxbs])\s*$/i;
+
+class ExpressionError extends Error {
+}
+
+/** Returns the value of the expression and the format to show it in, or an error message. */
+export async function evaluateExpression(expression: string, context: ExpressionContext): Promise<ExpressionResult | string> {
+	let text = expression;
+	let format: ExpressionFormat | undefined;
+
+	const suffix = FORMAT_REGEXP.exec(expression);
+	if (suffix) {
+		text = suffix[1];
+		format = <ExpressionFormat>suffix[2].toLowerCase();
+	}
+
+	try {
+		const node = new Parser(text).parse();
+		return { value: await evaluateNode(node, context), format };
+	} catch (error) {
+		if (error instanceof ExpressionError) {
+			return error.message;
+		}
+		throw error;
+	}
+}
+
+/**
+ * Formats a value the way MISC source writes it, e.g. '42', '#2A' or '0b101010'.
+ * 's' shows 16 bit values with bit 15 set as negative numbers, e.g. 65535 as '-1'.
+ */
+export function formatValue(value: number, format: ExpressionFormat = 'd'): string {
+	const sign = value < 0 ? '-' : '';
+	switch (format) {
+		case 's':
+			return `${value > REGISTER_MAX / 2 && value <= REGISTER_MAX ? value - REGISTER_MAX - 1 : value}`;
+		case 'h':
+		case 'x':
+			return `${sign}#${Math.abs(value).toString(16).toUpperCase()}`;
+		case 'b':
+			return `${sign}0b${Math.abs(value).toString(2)}`;
+		default:
+			return `${value}`;
+	}
+}
+
+/** A recursive descent parser over BINARY_OPERATORS. */
+class Parser {
+
+	private tokens: string[] = [];
+	private position = 0;
+
+	constructor(private text: string) {
+		TOKEN_REGEXP.lastIndex = 0;
+
+		let match: RegExpExecArray | null;
+		while (match = TOKEN_REGEXP.exec(text)) {
+			this.tokens.push(match[1]);
+		}
+	}
+
+	public parse(): ExpressionNode {
+		if (!this.tokens.length) {
+			throw new ExpressionError('Empty expression');
+		}
+
+		const node = this.parseBinary(0);
+		if (this.position < this.tokens.length) {
+			throw new ExpressionError(`Unexpected '${this.tokens[this.position]}' in '${this.text.trim()}'`);
+		}
+		return node;
+	}
+
+	private parseBinary(level: number): ExpressionNode {
+		if (level === BINARY_OPERATORS.length) {
+			return this.parseUnary();
+		}
+
+		let left = this.parseBinary(level + 1);
+		while (BINARY_OPERATORS[level].includes(this.peek())) {
+			const operator = this.next();
+			left = { kind: 'binary', operator, left, right: this.parseBinary(level + 1) };
+		}
+		return left;
+	}
+
+	private parseUnary(): ExpressionNode {
+		if (UNARY_OPERATORS.includes(this.peek())) {
+			const operator = this.next();
+			return { kind: 'unary', operator, operand: this.parseUnary() };
+		}
+		return this.parsePrimary();
+	}
+
+	private parsePrimary(): ExpressionNode {
+		const token = this.next();
+
+		if (token === '(' || token === '[') {
+			const node = this.parseBinary(0);
+			const closing = token === '(' ? ')' : ']';
+			if (this.next() !== closing) {
+				throw new ExpressionError(`Missing '${closing}' in '${this.text.trim()}'`);
+			}
+			return token === '(' ? node : { kind: 'memory', address: node };
+		}
+		if (/^\d+$/.test(token)) {
+			return { kind: 'number', value: parseInt(token, 10) };
+		}
+		if (/^#[0-9A-Fa-f]+$/.test(token)) {
+			return { kind: 'number', value: parseInt(token.substring(1), 16) };
+		}
+		if (token === '#') {
+			throw new ExpressionError(`Missing hex digits after '#' in '${this.text.trim()}'`);
+		}
+		if (/^0b/.test(token)) {
+			return { kind: 'number', value: parseInt(token.substring(2), 2) };
+		}
+		if (/^[A-Za-z_]/.test(token)) {
+			return { kind: 'register', name: token.toUpperCase() };
+		}
+
+		throw new ExpressionError(token ? `Unexpected '${token}' in '${this.text.trim()}'` : `Incomplete expression '${this.text.trim()}'`);
+	}
+
+	private peek(): string {
+		return this.tokens[this.position] || '';
+	}
+
+	private next(): string {
+		return this.tokens[this.position++] || '';
+	}
+}
+
+async function evaluateNode(node: ExpressionNode, context: ExpressionContext): Promise<number> {
+	switch (node.kind) {
+		case 'number':
+			return node.value;
+
+		case 'register': {
+			const value = context.registers.get(node.name);
+			if (value === undefined) {
+				throw new ExpressionError(`Unknown register '${node.name}'`);
+			}
+			return value;
+		}
+
+		case 'memory': {
+			const address = await evaluateNode(node.address, context);
+			const value = await context.readWord(address);
+			if (value === undefined) {
+				throw new ExpressionError(`Cannot read memory at ${formatValue(address, 'h')}`);
+			}
+			return value;
+		}
+
+		case 'unary': {
+			const operand = await evaluateNode(node.operand, context);
+			switch (node.operator) {
+				case '-': return -operand;
+				case '~': return ~operand;
+				default: return operand ? 0 : 1;
+			}
+		}
+
+		case 'binary': {
+			const left = await evaluateNode(node.left, context);
+
+			// do not evaluate the right side when the left side decides, like C does
+			if (node.operator === '&&' && !left) {
+				return 0;
+			}
+			if (node.operator === '||' && left) {
+				return 1;
+			}
+
+			const right = await evaluateNode(node.right, context);
+			switch (node.operator) {
+				case '||':
+				case '&&': return right ? 1 : 0;
+				case '|': return left | right;
+				case '^': return left ^ right;
+				case '&': return left & right;
+				case '==': return left === right ? 1 : 0;
+				case '!=': return left !== right ? 1 : 0;
+				case '<': return left < right ? 1 : 0;
+				case '<=': return left <= right ? 1 : 0;
+				case '>': return left > right ? 1 : 0;
+				case '>=': return left >= right ? 1 : 0;
+				case '<<': return left << right;
+				case '>>': return left >> right;
+				case '+': return left + right;
+				case '-': return left - right;
+				case '*': return left * right;
+				default:
+					if (right === 0) {
+						throw new ExpressionError('Division by zero');
+					}
+					return node.operator === '/' ? Math.trunc(left / right) : left % right;
+			}
+		}
+	}
+}
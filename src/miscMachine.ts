@@ -0,0 +1,614 @@
+/**
+ * A MISC interpreter written in TypeScript.
+ * It runs in every environment the extension runs in (including the browser) and backs the embedded runtime.
+ */
+
+/** Number of general purpose registers, named R1 to Rn. */
+export const REGISTER_COUNT = 8;
+/** Registers are unsigned 16 bit values. */
+export const REGISTER_MAX = 0xFFFF;
+/** Every instruction occupies 4 bytes, so jump targets are multiples of 4. */
+export const INSTRUCTION_SIZE = 4;
+/** Size of the byte addressed memory. Memory is accessed in big endian 16 bit words. */
+export const MEMORY_SIZE = 0x400;
+
+export type MiscOpcode = 'MOV' | 'ADD' | 'SUB' | 'ULD' | 'BZ' | 'CALL' | 'RET' | 'HALT';
+
+export type MiscOperandKind = 'register' | 'immediate' | 'memory';
+
+export interface MiscOperand {
+	kind: MiscOperandKind;
+	/** register number (1 based), immediate value or memory address */
+	value: number;
+	/** for memory operands like '[R1]': the address is taken from register 'value' */
+	indirect?: boolean;
+	/** the operand as written in the source */
+	text: string;
+	/** zero based column of the operand in its source line */
+	column: number;
+}
+
+export interface MiscInstruction {
+	opcode: MiscOpcode;
+	operands: MiscOperand[];
+	address: number;
+	/** zero based source line */
+	line: number;
+	/** the instruction as written in the source, without comment */
+	text: string;
+}
+
+export interface MiscAssemblerError {
+	line: number;
+	/** zero based column and length of the text the error is about */
+	column: number;
+	length: number;
+	message: string;
+}
+
+/** Where a label is defined in the source. */
+export interface MiscLabel {
+	name: string;
+	address: number;
+	/** zero based source line and column */
+	line: number;
+	column: number;
+}
+
+export interface MiscProgram {
+	instructions: MiscInstruction[];
+	labels: Map<string, number>;
+	/** every label definition in source order, duplicates included */
+	labelDefinitions: MiscLabel[];
+	errors: MiscAssemblerError[];
+}
+
+/** The kinds of operands every opcode expects, in order. */
+export const OPERAND_KINDS = new Map<MiscOpcode, MiscOperandKind[][]>([
+	['MOV', [['register', 'memory'], ['register', 'immediate', 'memory']]],
+	['ADD', [['register'], ['register', 'immediate']]],
+	['SUB', [['register'], ['register', 'immediate']]],
+	['ULD', [['register']]],
+	['BZ', [['register'], ['immediate']]],
+	['CALL', [['immediate']]],
+	['RET', []],
+	['HALT', []]
+]);
+
+const LABEL_REGEXP = /^(\s*)([A-Za-z_][A-Za-z0-9_]*):/;
+const TOKEN_REGEXP = /[^\s,]+/g;
+const REGISTER_REGEXP = /^R(\d+)$/i;
+const IMMEDIATE_REGEXP = /^#([0-9A-F]+)$/i;
+const MEMORY_REGEXP = /^\[(.*)\]$/;
+
+/**
+ * Translates MISC source into instructions.
+ * A line holds at most one instruction and may start with a 'label:', everything after ';' is a comment.
+ * Labels can be used instead of '#' immediates and stand for the address of the next instruction.
+ * MOV also accepts memory operands, either a fixed address like '[#1F]' or a register holding the address like '[R1]'.
+ * The targets of BZ and CALL must be instructions of the program.
+ */
+export function assemble(source: string): MiscProgram {
+	const instructions: MiscInstruction[] = [];
+	const labels = new Map<string, number>();
+	const labelDefinitions: MiscLabel[] = [];
+	const errors: MiscAssemblerError[] = [];
+	const labelReferences: { operand: MiscOperand, line: number }[] = [];
+
+	source.split(/\r?\n/).forEach((sourceLine, line) => {
+		let code = sourceLine.split(';')[0];
+		let offset = 0;
+
+		const label = LABEL_REGEXP.exec(code);
+		if (label) {
+			const name = label[2];
+			const column = label[1].length;
+			if (labels.has(name)) {
+				errors.push({ line, column, length: name.length, message: `Duplicate label '${name}'` });
+			}
+			labels.set(name, instructions.length * INSTRUCTION_SIZE);
+			labelDefinitions.push({ name, address: instructions.length * INSTRUCTION_SIZE, line, column });
+			offset = label[0].length;
+			code = code.substring(offset);
+		}
+
+		const tokens: { text: string, column: number }[] = [];
+		let m: RegExpExecArray | null;
+		TOKEN_REGEXP.lastIndex = 0;
+		while (m = TOKEN_REGEXP.exec(code)) {
+			tokens.push({ text: m[0], column: offset + m.index });
+		}
+		if (!tokens.length) {
+			return;
+		}
+
+		const [mnemonic, ...operandTokens] = tokens;
+		const opcode = mnemonic.text.toUpperCase() as MiscOpcode;
+		const expected = OPERAND_KINDS.get(opcode);
+		const last = tokens[tokens.length - 1];
+		const text = code.trim();
+
+		if (!expected) {
+			errors.push({ line, column: mnemonic.column, length: mnemonic.text.length, message: `Unknown opcode '${mnemonic.text}'` });
+			return;
+		}
+		if (operandTokens.length !== expected.length) {
+			errors.push({
+				line,
+				column: mnemonic.column,
+				length: last.column + last.text.length - mnemonic.column,
+				message: `${opcode} expects ${expected.length} operand(s) but got ${operandTokens.length}`
+			});
+			return;
+		}
+
+		const operands: MiscOperand[] = [];
+		for (let i = 0; i < operandTokens.length; i++) {
+			const { text: operandText, column } = operandTokens[i];
+			const operand = parseOperand(operandText, column);
+
+			if (typeof operand === 'string') {
+				errors.push({ line, column, length: operandText.length, message: operand });
+				return;
+			}
+			if (!expected[i].includes(operand.kind)) {
+				errors.push({ line, column, length: operandText.length, message: `Operand ${i + 1} of ${opcode} must be ${expected[i].join(' or ')}` });
+				return;
+			}
+			if (operand.value < 0) {
+				labelReferences.push({ operand, line });
+			}
+			operands.push(operand);
+		}
+
+		instructions.push({ opcode, operands, address: instructions.length * INSTRUCTION_SIZE, line, text });
+	});
+
+	// labels may be used before they are defined
+	for (const { operand, line } of labelReferences) {
+		const address = labels.get(operand.text);
+		if (address === undefined) {
+			errors.push({ line, column: operand.column, length: operand.text.length, message: `Unknown label '${operand.text}'` });
+		} else {
+			operand.value = address;
+		}
+	}
+
+	// BZ and CALL must continue at an instruction
+	const end = instructions.length * INSTRUCTION_SIZE;
+	for (const instruction of instructions) {
+		const target = jumpTarget(instruction);
+		if (!target || target.value < 0) {
+			continue;	// unknown labels are reported already
+		}
+		if (target.value >= end) {
+			errors.push({ line: instruction.line, column: target.column, length: target.text.length, message: `Jump target '${target.text}' is past the end of the program` });
+		} else if (target.value % INSTRUCTION_SIZE) {
+			errors.push({ line: instruction.line, column: target.column, length: target.text.length, message: `Jump target '${target.text}' is not the address of an instruction` });
+		}
+	}
+
+	// report errors in source order, the runtime shows the first one
+	errors.sort((a, b) => a.line - b.line);
+
+	return { instructions, labels, labelDefinitions, errors };
+}
+
+/** The operand of BZ or CALL that holds the address execution may continue at. */
+export function jumpTarget(instruction: MiscInstruction): MiscOperand | undefined {
+	switch (instruction.opcode) {
+		case 'BZ': return instruction.operands[1];
+		case 'CALL': return instruction.operands[0];
+		default: return undefined;
+	}
+}
+
+function parseOperand(text: string, column: number): MiscOperand | string {
+	const memory = MEMORY_REGEXP.exec(text);
+	if (memory) {
+		const address = parseOperand(memory[1].trim(), column + 1);
+		if (typeof address === 'string' || address.kind === 'memory' || address.value < 0) {
+			return `Invalid memory operand '${text}', expected an address like '[#1F]' or '[R1]'`;
+		}
+		if (address.kind === 'immediate' && address.value > MEMORY_SIZE - 2) {
+			return `Memory address '${text}' is outside of the memory`;
+		}
+		return { kind: 'memory', value: address.value, indirect: address.kind === 'register', text, column };
+	}
+
+	const register = REGISTER_REGEXP.exec(text);
+	if (register) {
+		const value = parseInt(register[1], 10);
+		if (value < 1 || value > REGISTER_COUNT) {
+			return `Unknown register '${text}', registers are R1 to R${REGISTER_COUNT}`;
+		}
+		return { kind: 'register', value, text, column };
+	}
+
+	const immediate = IMMEDIATE_REGEXP.exec(text);
+	if (immediate) {
+		const value = parseInt(immediate[1], 16);
+		if (value > REGISTER_MAX) {
+			return `Immediate '${text}' does not fit into 16 bits`;
+		}
+		return { kind: 'immediate', value, text, column };
+	}
+
+	if (text.startsWith('#')) {
+		return `Invalid hex immediate '${text}'`;
+	}
+
+	if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(text)) {
+		// label reference, resolved once all labels are known
+		return { kind: 'immediate', value: -1, text, column };
+	}
+
+	return `Invalid operand '${text}'`;
+}
+
+export interface MiscCallFrame {
+	/** address of the first instruction of the called routine */
+	target: number;
+	/** address execution continues at after RET */
+	returnAddress: number;
+}
+
+export type MiscStepResult =
+	{ kind: 'ok' } |
+	{ kind: 'halt' } |
+	{ kind: 'fault', message: string };
+
+export type MiscAccessType = 'read' | 'write';
+
+/** A register or memory word an instruction read or wrote. */
+export interface MiscAccess {
+	/** 'R1' to 'Rn', 'SP' or a memory address like '#3FE' */
+	target: string;
+	type: MiscAccessType;
+	oldValue: number;
+	newValue: number;
+}
+
+/** The status register SR, updated by ADD and SUB. */
+export interface MiscFlags {
+	/** the result is 0 */
+	zero: boolean;
+	/** ADD overflowed or SUB borrowed */
+	carry: boolean;
+	/** bit 15 of the result is set */
+	negative: boolean;
+}
+
+/** What 'stepBack' needs to undo an instruction. */
+interface MiscStepDelta {
+	pc: number;
+	sp: number;
+	flags: MiscFlags;
+	callDepth: number;
+	/** the frame removed by RET */
+	returnedFrom?: MiscCallFrame;
+	/** the accesses of the instruction, writes carry the overwritten values */
+	accesses: MiscAccess[];
+}
+
+class MiscFault extends Error {
+}
+
+/**
+ * Executes an assembled MISC program one instruction at a time.
+ * Values written by ULD are handed to the 'output' callback.
+ * CALL pushes the return address onto a stack that grows down from the end of memory, RET pops it.
+ * With a history limit the machine remembers what the last instructions changed, so 'stepBack' can undo them.
+ */
+export class MiscMachine {
+
+	readonly registers = new Array<number>(REGISTER_COUNT + 1).fill(0);
+	readonly memory = new Uint8Array(MEMORY_SIZE);
+	readonly callStack: MiscCallFrame[] = [];
+	readonly flags: MiscFlags = { zero: false, carry: false, negative: false };
+	/** the registers and memory words accessed by the last instruction */
+	accesses: MiscAccess[] = [];
+	pc = 0;
+	sp = MEMORY_SIZE;
+	halted = false;
+
+	// a ring buffer of the most recent steps
+	private history: MiscStepDelta[] = [];
+	private historyLimit = 0;
+	private historyEnd = 0;
+	private historySize = 0;
+
+	constructor(readonly program: MiscProgram, private output: (text: string, line: number) => void = () => {}) {
+	}
+
+	/** The instruction at the program counter or undefined if execution left the program. */
+	public get currentInstruction(): MiscInstruction | undefined {
+		return this.instructionAt(this.pc);
+	}
+
+	/** Remembers up to 'limit' steps from now on, 0 turns stepping back off. */
+	public setHistoryLimit(limit: number) {
+		this.history = [];
+		this.historyLimit = Math.max(limit, 0);
+		this.historyEnd = 0;
+		this.historySize = 0;
+	}
+
+	/** Whether there is a step that 'stepBack' can undo. */
+	public get canStepBack(): boolean {
+		return this.historySize > 0;
+	}
+
+	public instructionAt(address: number): MiscInstruction | undefined {
+		return address % INSTRUCTION_SIZE === 0 ? this.program.instructions[address / INSTRUCTION_SIZE] : undefined;
+	}
+
+	public step(): MiscStepResult {
+		this.accesses = [];
+
+		if (this.halted) {
+			return { kind: 'halt' };
+		}
+
+		const instruction = this.currentInstruction;
+		if (!instruction) {
+			return { kind: 'fault', message: `No instruction at address ${formatAddress(this.pc)}` };
+		}
+
+		const delta: MiscStepDelta = {
+			pc: this.pc,
+			sp: this.sp,
+			flags: { ...this.flags },
+			callDepth: this.callStack.length,
+			returnedFrom: instruction.opcode === 'RET' ? this.callStack[this.callStack.length - 1] : undefined,
+			accesses: this.accesses
+		};
+
+		try {
+			this.pc = this.execute(instruction);
+			this.remember(delta);
+		} catch (error) {
+			if (error instanceof MiscFault) {
+				return { kind: 'fault', message: error.message };
+			}
+			throw error;
+		}
+
+		return this.halted ? { kind: 'halt' } : { kind: 'ok' };
+	}
+
+	/**
+	 * Undoes the most recent instruction that is still remembered, except for its output.
+	 * Afterwards 'accesses' holds the accesses of the undone instruction.
+	 */
+	public stepBack(): boolean {
+		if (!this.historySize) {
+			return false;
+		}
+
+		this.historyEnd = (this.historyEnd + this.historyLimit - 1) % this.historyLimit;
+		this.historySize--;
+		const delta = this.history[this.historyEnd];
+
+		for (let i = delta.accesses.length - 1; i >= 0; i--) {
+			const access = delta.accesses[i];
+			if (access.type !== 'write') {
+				continue;
+			}
+			if (access.target.startsWith('#')) {
+				this.writeWord(parseInt(access.target.substring(1), 16), access.oldValue);
+			} else {
+				this.registers[parseInt(access.target.substring(1), 10)] = access.oldValue;
+			}
+		}
+
+		this.pc = delta.pc;
+		this.sp = delta.sp;
+		Object.assign(this.flags, delta.flags);
+		this.callStack.length = delta.callDepth;
+		if (delta.returnedFrom) {
+			this.callStack[delta.callDepth - 1] = delta.returnedFrom;
+		}
+		this.halted = false;
+		this.accesses = delta.accesses;
+		return true;
+	}
+
+	public readWord(address: number): number {
+		this.checkAddress(address);
+		return (this.memory[address] << 8) | this.memory[address + 1];
+	}
+
+	public writeWord(address: number, value: number) {
+		this.checkAddress(address);
+		this.memory[address] = (value >> 8) & 0xFF;
+		this.memory[address + 1] = value & 0xFF;
+	}
+
+	private remember(delta: MiscStepDelta) {
+		if (!this.historyLimit) {
+			return;
+		}
+
+		this.history[this.historyEnd] = delta;
+		this.historyEnd = (this.historyEnd + 1) % this.historyLimit;
+		this.historySize = Math.min(this.historySize + 1, this.historyLimit);
+	}
+
+	/** Sets the flags for the unbounded result of an arithmetic instruction and returns the 16 bit result. */
+	private updateFlags(result: number): number {
+		const value = result & REGISTER_MAX;
+		this.flags.zero = value === 0;
+		this.flags.carry = result !== value;
+		this.flags.negative = (value & 0x8000) !== 0;
+		return value;
+	}
+
+	/** Executes the instruction and returns the address of the next one. */
+	private execute(instruction: MiscInstruction): number {
+		const [a, b] = instruction.operands;
+		let next = this.pc + INSTRUCTION_SIZE;
+
+		switch (instruction.opcode) {
+			case 'MOV':
+				this.store(a, this.load(b));
+				break;
+			case 'ADD':
+				this.store(a, this.updateFlags(this.load(a) + this.load(b)));
+				break;
+			case 'SUB':
+				this.store(a, this.updateFlags(this.load(a) - this.load(b)));
+				break;
+			case 'ULD':
+				this.output(`${a.text.toUpperCase()} = ${this.load(a)}`, instruction.line);
+				break;
+			case 'BZ':
+				if (this.load(a) === 0) {
+					next = b.value;
+				}
+				break;
+			case 'CALL':
+				if (this.sp < 2) {
+					throw new MiscFault('Stack overflow');
+				}
+				this.sp -= 2;
+				this.writeMemory(this.sp, next);
+				this.callStack.push({ target: a.value, returnAddress: next });
+				next = a.value;
+				break;
+			case 'RET':
+				if (!this.callStack.length) {
+					throw new MiscFault('RET without CALL');
+				}
+				next = this.readMemory(this.sp);
+				this.sp += 2;
+				this.callStack.pop();
+				break;
+			case 'HALT':
+				this.halted = true;
+				next = this.pc;
+				break;
+		}
+
+		return next;
+	}
+
+	private load(operand: MiscOperand): number {
+		switch (operand.kind) {
+			case 'register': {
+				const value = this.registers[operand.value];
+				this.accesses.push({ target: `R${operand.value}`, type: 'read', oldValue: value, newValue: value });
+				return value;
+			}
+			case 'memory':
+				return this.readMemory(this.addressOf(operand));
+			default:
+				return operand.value;
+		}
+	}
+
+	private store(operand: MiscOperand, value: number) {
+		if (operand.kind === 'register') {
+			this.accesses.push({ target: `R${operand.value}`, type: 'write', oldValue: this.registers[operand.value], newValue: value });
+			this.registers[operand.value] = value;
+		} else {
+			this.writeMemory(this.addressOf(operand), value);
+		}
+	}
+
+	private addressOf(operand: MiscOperand): number {
+		return operand.indirect ? this.load({ ...operand, kind: 'register' }) : operand.value;
+	}
+
+	private readMemory(address: number): number {
+		const value = this.readWord(address);
+		this.accesses.push({ target: formatAddress(address), type: 'read', oldValue: value, newValue: value });
+		return value;
+	}
+
+	private writeMemory(address: number, value: number) {
+		const oldValue = this.readWord(address);
+		this.writeWord(address, value);
+		this.accesses.push({ target: formatAddress(address), type: 'write', oldValue, newValue: value });
+	}
+
+	private checkAddress(address: number) {
+		if (address < 0 || address > MEMORY_SIZE - 2) {
+			throw new MiscFault(`Memory address ${formatAddress(address)} is outside of the memory`);
+		}
+	}
+}
+
+/** The operand fields of the instruction encoding, 'indirect' is a memory operand like '[R1]'. */
+type MiscFieldKind = 'register' | 'immediate' | 'memory' | 'indirect';
+
+const FIELD_BITS = new Map<MiscFieldKind, number>([['register', 4], ['indirect', 4], ['memory', 10], ['immediate', 16]]);
+
+/** Every combination of an opcode and the kinds of its operands, e.g. 'MOV register immediate'. */
+const INSTRUCTION_FORMS: string[] = [];
+
+for (const [opcode, operandKinds] of OPERAND_KINDS) {
+	let forms: string[] = [opcode];
+	for (const kinds of operandKinds) {
+		const fieldKinds: MiscFieldKind[] = [];
+		kinds.forEach(kind => kind === 'memory' ? fieldKinds.push('memory', 'indirect') : fieldKinds.push(kind));
+
+		const combinations: string[] = [];
+		forms.forEach(form => fieldKinds.forEach(kind => combinations.push(`${form} ${kind}`)));
+		forms = combinations;
+	}
+	INSTRUCTION_FORMS.push(...forms);
+}
+
+/**
+ * Encodes an instruction into its 4 bytes, as shown in the Disassembly view.
+ * The top 5 bits select the form in INSTRUCTION_FORMS, the operand fields follow without gaps
+ * (4 bits for registers, 10 bits for memory addresses, 16 bits for immediates) and the rest is 0.
+ */
+export function encodeInstruction(instruction: MiscInstruction): number[] {
+	const fieldKinds = instruction.operands.map(operand => <MiscFieldKind>(operand.indirect ? 'indirect' : operand.kind));
+	let encoded = INSTRUCTION_FORMS.indexOf([instruction.opcode, ...fieldKinds].join(' '));
+	let bits = 5;
+
+	instruction.operands.forEach((operand, i) => {
+		const fieldBits = FIELD_BITS.get(fieldKinds[i])!;
+		encoded = encoded * 2 ** fieldBits + operand.value;
+		bits += fieldBits;
+	});
+	encoded *= 2 ** (INSTRUCTION_SIZE * 8 - bits);
+
+	const bytes: number[] = [];
+	for (let i = INSTRUCTION_SIZE - 1; i >= 0; i--) {
+		bytes.push(Math.floor(encoded / 2 ** (i * 8)) & 0xFF);
+	}
+	return bytes;
+}
+
+/** Formats an address the way MISC source writes it, e.g. '#1F'. */
+export function formatAddress(address: number): string {
+	return `#${address.toString(16).toUpperCase()}`;
+}
+
+/**
+ * Parses a register value typed by the user: decimal like '42', hex like '#2A' or binary like '0b101010'.
+ * Returns the value or an error message if the text is no number or does not fit into a register.
+ */
+export function parseValue(text: string): number | string {
+	const trimmed = text.trim();
+	let value: number;
+
+	if (/^\d+$/.test(trimmed)) {
+		value = parseInt(trimmed, 10);
+	} else if (IMMEDIATE_REGEXP.test(trimmed)) {
+		value = parseInt(trimmed.substring(1), 16);
+	} else if (/^0b[01]+$/i.test(trimmed)) {
+		value = parseInt(trimmed.substring(2), 2);
+	} else {
+		return `Invalid value '${trimmed}', expected a decimal, '#' hex or '0b' binary number`;
+	}
+
+	if (value > REGISTER_MAX) {
+		return `Value '${trimmed}' is out of range, registers hold 0 to ${REGISTER_MAX}`;
+	}
+	return value;
+}
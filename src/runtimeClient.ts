@@ -1,15 +1,32 @@
 import { EventEmitter } from 'events';
-import { Socket } from 'net';
-import fetch, { Headers } from 'node-fetch';
-import { forkJoin, Observable, Subject, Subscriber } from 'rxjs';
+import { Observable, Subject, Subscriber } from 'rxjs';
+import { RuntimeProcess, RuntimeProcessOptions } from './runtimeProcess';
+import { EmbeddedRuntime } from './embeddedRuntime';
+import { HttpTransport } from './httpTransport';
+import { InMemoryTransport } from './inMemoryTransport';
+import { SocketTransport } from './socketTransport';
+import { RuntimeCancellation, RuntimeController, RuntimeDataAccess, RuntimeMethod, RuntimeNotification, RuntimeRetryPolicy, RuntimeTransport, RuntimeTransportConfiguration, RuntimeTransportFactory } from './runtimeTransport';
 
 export interface FileAccessor {
 	readFile(path: string): Promise<string>;
 }
 
+/**
+ * Why a program could not be started or attached to:
+ * the runtime could not be reached ('transport'), it rejected the program ('load') or it could not run it ('fault').
+ */
+export interface RuntimeFailure {
+	kind: 'transport' | 'load' | 'fault';
+	message: string;
+	/** zero based source line and column the failure is about, if the runtime reported one */
+	line?: number;
+	column?: number;
+}
+
 export interface ProgramStartResponse {
-	hasError: boolean;
-	error?: string;
+	error?: RuntimeFailure;
+	/** how the program stopped right away, e.g. 'stopOnEntry' */
+	event?: string;
 }
 
 export interface RuntimeBreakpoint {
@@ -23,6 +40,8 @@ export interface RuntimeStackframe {
 	name: string;
 	file: string;
 	line: number;
+	/** address of the instruction the frame executes, the current one for the top frame and the CALL for the others */
+	address?: number;
 }
 
 export interface RuntimeStackframes {
@@ -30,40 +49,227 @@ export interface RuntimeStackframes {
 	count: number;
 }
 
+export interface RuntimeVariable {
+	name: string;
+	value: string;
+	type: string;
+	evaluateName: string;
+	/** set if the value is a memory address */
+	address?: number;
+	/** parts of the value like the flags of a status register */
+	children?: RuntimeVariable[];
+}
+
+export interface RuntimeInstruction {
+	address: number;
+	/** the encoded instruction */
+	bytes: number[];
+	/** opcode and operands as written in the source */
+	text: string;
+	line: number;
+	/** the label at the instruction */
+	symbol?: string;
+}
+
+export interface RuntimeMemory {
+	/** address of the first byte in 'data' */
+	address: number;
+	/** base64 encoded bytes */
+	data: string;
+	/** number of requested bytes after 'data' that could not be read */
+	unreadableBytes?: number;
+}
+
+export interface RuntimeStep {
+	/** false if the program ended or faulted */
+	stopped: boolean;
+	/** how many cycles the instruction took, only reported by runtimes that count them */
+	cycles?: number;
+	/** set if the instruction triggered a data breakpoint */
+	dataBreakpoint?: { access?: RuntimeDataAccess, breakpointId?: number };
+}
+
+export const DEFAULT_RUNTIME_HOST = 'localhost';
+export const DEFAULT_RUNTIME_PORT = 5000;
+
+/** Milliseconds to wait for the answer to a request before giving up on it. */
+export const DEFAULT_REQUEST_TIMEOUT = 10000;
+
+/** Waits up to about 10 seconds for a runtime that is still starting. */
+export const DEFAULT_RETRY_POLICY: RuntimeRetryPolicy = { attempts: 8, delay: 250, maxDelay: 2000 };
+
+/**
+ * Selects the transport from the launch configuration:
+ * the embedded runtime is reached in-memory, an external runtime over HTTP (default) or TCP.
+ */
+export const defaultTransportFactory: RuntimeTransportFactory = {
+	createTransport(configuration: RuntimeTransportConfiguration): RuntimeTransport {
+		const host = configuration.runtimeHost || DEFAULT_RUNTIME_HOST;
+		const port = configuration.runtimePort || DEFAULT_RUNTIME_PORT;
+
+		if (configuration.runtime === 'embedded') {
+			return new InMemoryTransport(notify => new EmbeddedRuntime(notify));
+		}
+		if (configuration.transport === 'tcp') {
+			return new SocketTransport(host, port);
+		}
+		return new HttpTransport(host, port);
+	}
+};
+
 export class RuntimeClient extends EventEmitter {
 	constructor(private fileAccessor: FileAccessor) {
 		super();
-		this.clientSubject.subscribe(client => this.client = client);
+		this.dataSubject.subscribe(data => this.handleNotification(data));
 	}
 
 	sourcePath: string | undefined;
 	sourceText: string | undefined;
-	client: Socket | undefined;
-	clientConnected = false;
-	clientSubject = new Subject<Socket | undefined>();
-	dataSubject = new Subject<any | undefined>();
-
-
-	public start(path: string, stopOnEntry = false): Promise<any> {
-		return new Promise(async (resolve, _) => {
-			this.sourcePath = path;
-			this.sourceText = await this.fileAccessor.readFile(this.sourcePath);
-
-			const subscription = forkJoin([
-				this.request('POST', 'Debug', 'Load', { file: this.sourceText }),
-				this.request('POST', 'Debug', 'Start', { stopOnEntry })
-			]).subscribe(data => {
-				const error = data[0]?.error || data[1]?.error;
-				const event = data[1]?.event || '';
-
-				if (!error && event) {
-					this.sendEvent(event);
-				}
+	transport: RuntimeTransport | undefined;
+	runtimeProcess: RuntimeProcess | undefined;
+	runtimeReady: Promise<string | undefined> = Promise.resolve(undefined);
+	dataSubject = new Subject<RuntimeNotification | undefined>();
+	/** Milliseconds after which a request is answered with an error, 0 waits forever. */
+	requestTimeout = DEFAULT_REQUEST_TIMEOUT;
+	// transport errors are only reported as events once the program runs, before that 'start' and 'attach' return them
+	private started = false;
+	// why the runtime started by 'launchRuntime' cannot run the program any more
+	private exitBeforeStart: string | undefined;
 
-				resolve({ error, event });
-				subscription.unsubscribe();
-			});
+
+	/** Selects the runtime all further requests are sent to. */
+	public setTransport(transport: RuntimeTransport) {
+		this.transport?.dispose();
+		this.transport = transport;
+
+		transport.on('notification', (notification: RuntimeNotification) => this.dataSubject.next(notification));
+		transport.on('error', (error: Error) => {
+			if (this.transport === transport) {
+				this.sendEvent('output', `MISC runtime at ${transport.endpoint}: ${error.message}`, undefined, undefined, undefined, 'stderr');
+			}
+		});
+		transport.on('close', () => {
+			// the runtime went away while we were still connected, which is only normal once the program has ended
+			if (this.transport !== transport) {
+				return;
+			}
+			if (this.started) {
+				this.started = false;
+				this.sendEvent('transportError', `The MISC runtime at ${transport.endpoint} closed the connection before the program ended. Check the output of the runtime for a crash.`);
+			} else {
+				this.sendEvent('end');
+			}
+		});
+	}
+
+	/**
+	 * Spawns the MISC runtime and resolves once its HTTP API answers.
+	 * Requests issued in the meantime wait until the runtime is ready.
+	 * Resolves to an error message if the runtime could not be started.
+	 */
+	public launchRuntime(options: RuntimeProcessOptions, retry = DEFAULT_RETRY_POLICY): Promise<string | undefined> {
+		const runtimeProcess = new RuntimeProcess();
+
+		runtimeProcess.on('output', (text: string, category: string) => {
+			this.sendEvent('output', text, undefined, undefined, undefined, category);
 		});
+		runtimeProcess.on('exit', (code: number | null) => {
+			if (this.runtimeProcess !== runtimeProcess) {
+				return;
+			}
+			this.runtimeProcess = undefined;
+
+			if (this.started) {
+				// the runtime went away while the program runs
+				this.started = false;
+				this.sendEvent('end');
+			} else {
+				// ending the session now would hide the error the pending launch reports
+				this.exitBeforeStart = `The MISC runtime exited with code ${code} before the program started. Check its output for the reason.`;
+			}
+		});
+
+		this.runtimeProcess = runtimeProcess;
+		this.exitBeforeStart = undefined;
+		runtimeProcess.start(options);
+
+		this.runtimeReady = this.waitForRuntime(retry, runtimeProcess).then(ready => {
+			if (ready) {
+				return undefined;
+			}
+			return runtimeProcess.exited ? `runtime exited with code ${runtimeProcess.exitCode}` : `runtime did not answer after ${retry.attempts} attempts`;
+		});
+		return this.runtimeReady;
+	}
+
+	/**
+	 * Waits for a runtime started by someone else, e.g. by a task that is still starting it.
+	 * Requests issued in the meantime wait as well, if the runtime never answers they report why.
+	 */
+	public connectRuntime(retry = DEFAULT_RETRY_POLICY): Promise<void> {
+		this.runtimeReady = this.waitForRuntime(retry).then(() => undefined);
+		return this.runtimeReady.then(() => undefined);
+	}
+
+	/** 'historyLimit' is the number of instructions the runtime remembers for stepping back, the runtime decides if it is undefined. */
+	public async start(path: string, stopOnEntry = false, historyLimit?: number): Promise<ProgramStartResponse> {
+		const readError = await this.readSource(path);
+		if (readError) {
+			return { error: readError };
+		}
+		if (this.exitBeforeStart) {
+			return { error: { kind: 'transport', message: this.exitBeforeStart } };
+		}
+
+		// stops that happen after 'Start' returned are only reported through the event stream
+		const eventsError = await this.connectEvents();
+		if (eventsError) {
+			return { error: eventsError };
+		}
+
+		// a program that did not load must not start
+		const loadError = toFailure(await this.answerOf(this.request('POST', 'Debug', 'Load', { file: this.sourceText })), 'load');
+		if (loadError) {
+			return { error: loadError };
+		}
+
+		const data = await this.answerOf(this.request('POST', 'Debug', 'Start', { stopOnEntry, historyLimit }));
+		const error = toFailure(data, 'fault');
+		const event = data?.event || '';
+
+		if (!error && event) {
+			this.sendEvent(event);
+		}
+
+		this.started = !error;
+		return { error, event };
+	}
+
+	/**
+	 * Connects to a runtime that already has the program at 'path' loaded and started.
+	 * If the runtime is currently stopped, the event describing that stop is replayed.
+	 */
+	public async attach(path: string): Promise<ProgramStartResponse> {
+		const readError = await this.readSource(path);
+		if (readError) {
+			return { error: readError };
+		}
+
+		const eventsError = await this.connectEvents();
+		if (eventsError) {
+			return { error: eventsError };
+		}
+
+		const data = await this.answerOf(this.request('GET', 'Debug', 'Status'));
+		const error = toFailure(data, 'fault');
+		const event = data?.event || '';
+
+		if (!error && event) {
+			this.sendEvent(event);
+		}
+
+		this.started = !error;
+		return { error, event };
 	}
 
 	public getBreakpoints(): Promise<{ line: number }[]> {
@@ -93,68 +299,337 @@ export class RuntimeClient extends EventEmitter {
 		});
 	}
 
-	public step(): Promise<boolean> {
+	/**
+	 * Watches a register like 'R2' or the memory word at an address like '#1F'.
+	 * The runtime stops after an instruction accessed it in the given way.
+	 */
+	public setDataBreakpoint(target: string, accessType: 'read' | 'write' | 'readWrite'): Promise<{ verified: boolean, id: number }> {
+		return new Promise((resolve, _) => {
+			const subscription = this.request('POST', 'Breakpoint', 'SetData', { target, accessType }).subscribe(data => {
+				resolve(data);
+				subscription.unsubscribe();
+			});
+		});
+	}
+
+	public clearDataBreakpoints(): Promise<void> {
+		return new Promise((resolve, _) => {
+			const subscription = this.request('PATCH', 'Breakpoint', 'ClearData').subscribe(() => {
+				resolve();
+				subscription.unsubscribe();
+			});
+		});
+	}
+
+	/** Breaks before the instruction at 'address' is executed. */
+	public setInstructionBreakpoint(address: number): Promise<{ verified: boolean, address: number, id: number }> {
+		return new Promise((resolve, _) => {
+			const subscription = this.request('POST', 'Breakpoint', 'SetInstruction', { address }).subscribe(data => {
+				resolve(data);
+				subscription.unsubscribe();
+			});
+		});
+	}
+
+	public clearInstructionBreakpoints(): Promise<void> {
+		return new Promise((resolve, _) => {
+			const subscription = this.request('PATCH', 'Breakpoint', 'ClearInstruction').subscribe(() => {
+				resolve();
+				subscription.unsubscribe();
+			});
+		});
+	}
+
+	/** Resolves to at most 'count' instructions starting at 'address', fewer if the program ends before. */
+	public disassemble(address: number, count: number, cancellation?: RuntimeCancellation): Promise<RuntimeInstruction[]> {
+		return new Promise((resolve, _) => {
+			const subscription = this.request('POST', 'Debug', 'Disassemble', { address, count }, cancellation).subscribe(data => {
+				resolve(data?.instructions || []);
+				subscription.unsubscribe();
+			});
+		});
+	}
+
+	/**
+	 * Executes one instruction and resolves to whether the runtime stopped after it or the program ended.
+	 * With 'reportStop' false the stop is not emitted as an event.
+	 */
+	public step(reportStop = true): Promise<RuntimeStep> {
 		return new Promise((resolve, _) => {
 			const subscription = this.request('PATCH', 'Debug', 'Step').subscribe(data => {
-				if (data.event) {
-					this.sendEvent(data?.event);
+				if (data?.event && reportStop) {
+					this.sendStopEvent(data);
 				}
 
-				resolve(data);
+				const dataBreakpoint = data?.event === 'stopOnDataBreakpoint' ? { access: data.access, breakpointId: data.breakpointId } : undefined;
+				resolve({ stopped: !!data?.event, cycles: data?.cycles, dataBreakpoint });
 				subscription.unsubscribe();
 			});
 		});
 	}
 
-	public getStackFrames(): Promise<RuntimeStackframes> {
+	/** Executes one instruction, or runs a CALL until it returns. */
+	public stepOver(): Promise<void> {
+		return this.controlExecution('StepOver');
+	}
+
+	/** Runs until the routine entered by the current CALL returns to its caller. */
+	public stepOut(): Promise<void> {
+		return this.controlExecution('StepOut');
+	}
+
+	public getStackFrames(cancellation?: RuntimeCancellation): Promise<RuntimeStackframes> {
 		return new Promise((resolve, _) => {
-			const subscription = this.request('GET', 'Stackframe', 'Get').subscribe(data => {
-				const frames = (data.frames || []).map((item: RuntimeStackframe) => ({ ...item, file: this.sourcePath || '' }));
+			const subscription = this.request('GET', 'Stackframe', 'Get', undefined, cancellation).subscribe(data => {
+				const frames = (data?.frames || []).map((item: RuntimeStackframe) => ({ ...item, file: this.sourcePath || '' }));
 				resolve({ ...data, frames });
 				subscription.unsubscribe();
 			});
 		});
 	}
 
+	/**
+	 * Lets the runtime run until it hits a breakpoint, executes HALT or faults.
+	 * Resolves as soon as the runtime accepted the request, the stop itself arrives through the event stream.
+	 */
 	public continue(): Promise<void> {
-		return new Promise(async (resolve, _) => {
-			// const guid = v4();
-			// this.client?.write(JSON.stringify({
-			// 	debugCommand: 'continue',
-			// 	guid
-			// }));
+		return this.controlExecution('Continue');
+	}
+
+	public readMemory(address: number, count: number, cancellation?: RuntimeCancellation): Promise<RuntimeMemory> {
+		return new Promise((resolve, _) => {
+			const subscription = this.request('POST', 'Memory', 'Read', { address, count }, cancellation).subscribe(data => {
+				resolve(data);
+				subscription.unsubscribe();
+			});
+		});
+	}
 
-			// const subscription = this.dataSubject.subscribe(data => {
-			// 	if (data && data.guid === guid) {
-			// 		subscription.unsubscribe();
-			// 		resolve(data.debugCommand);
-			// 	}
-			// });
+	/** Writes the base64 encoded bytes in 'data' and resolves to the number of bytes written. */
+	public writeMemory(address: number, data: string): Promise<{ bytesWritten: number, error?: string }> {
+		return new Promise((resolve, _) => {
+			const subscription = this.request('POST', 'Memory', 'Write', { address, data }).subscribe(data => {
+				resolve(data);
+				subscription.unsubscribe();
+			});
 		});
 	}
 
-	getVariables(): Promise<any[]> {
+	/** Changes a register and resolves to its new state or to an error if the runtime refused the value. */
+	public setVariable(name: string, value: number): Promise<RuntimeVariable & { error?: string }> {
 		return new Promise((resolve, _) => {
-			const subscription = this.request('GET', 'Variable', 'Get').subscribe(data => {
+			const subscription = this.request('POST', 'Variable', 'Set', { name, value }).subscribe(data => {
 				resolve(data);
 				subscription.unsubscribe();
 			});
 		});
 	}
 
+	/** Resolves to no variables if the request failed or was cancelled. */
+	getVariables(cancellation?: RuntimeCancellation): Promise<RuntimeVariable[]> {
+		return new Promise((resolve, _) => {
+			const subscription = this.request('GET', 'Variable', 'Get', undefined, cancellation).subscribe(data => {
+				resolve(Array.isArray(data) ? data : []);
+				subscription.unsubscribe();
+			});
+		});
+	}
+
+	/** Undoes the last instruction. */
+	public stepBack(): Promise<void> {
+		return this.controlExecution('StepBack');
+	}
+
+	/** Runs the program backwards until it is back at a breakpoint or the runtime has no more history. */
+	public reverseContinue(): Promise<void> {
+		return this.controlExecution('ReverseContinue');
+	}
+
+	/** Interrupts a running program at the current instruction. */
+	public pause(): Promise<void> {
+		return this.controlExecution('Pause');
+	}
+
+	/**
+	 * Issues a request that lets the program run or stops it.
+	 * If the runtime stops right away the response carries the stop event, otherwise a notification reports it later.
+	 */
+	private controlExecution(endpoint: 'Continue' | 'StepOver' | 'StepOut' | 'Pause' | 'StepBack' | 'ReverseContinue'): Promise<void> {
+		return new Promise((resolve, _) => {
+			const subscription = this.request('PATCH', 'Debug', endpoint).subscribe(data => {
+				if (data?.event) {
+					this.sendStopEvent(data);
+				}
+
+				resolve();
+				subscription.unsubscribe();
+			});
+		});
+	}
+
+	/** A stop reported in a response, like the notifications a data breakpoint passes on what triggered it. */
+	private sendStopEvent(data: any) {
+		if (data.event === 'stopOnDataBreakpoint') {
+			this.sendEvent(data.event, data.access, data.breakpointId);
+		} else {
+			this.sendEvent(data.event);
+		}
+	}
+
 	public disconnect() {
+		this.started = false;
+
+		const transport = this.transport;
+		this.transport = undefined;
+		transport?.dispose();
+
+		// only a runtime we started ourselves is terminated, an attached runtime keeps running
+		const runtimeProcess = this.runtimeProcess;
+		this.runtimeProcess = undefined;
+		runtimeProcess?.kill();
+	}
+
+	/** Without a transport selected by the launch configuration we talk to the default runtime server. */
+	private getTransport(): RuntimeTransport {
+		if (!this.transport) {
+			this.setTransport(defaultTransportFactory.createTransport({}));
+		}
+		return this.transport!;
+	}
+
+	/** A program that cannot be read fails like one the runtime cannot load. */
+	private async readSource(path: string): Promise<RuntimeFailure | undefined> {
+		this.sourcePath = path;
+		try {
+			this.sourceText = await this.fileAccessor.readFile(path);
+			return undefined;
+		} catch (error) {
+			return { kind: 'load', message: `${error?.message || error}` };
+		}
 	}
 
-	private request(method: 'GET' | 'POST' | 'PATCH', controller: 'Breakpoint' | 'Variable' | 'Debug' | 'Stackframe', endpoint: string, body?: any, timeout?: number): Observable<any> {
+	/** Sends the request and resolves to its answer. */
+	private answerOf(request: Observable<any>): Promise<any> {
+		return new Promise((resolve, _) => {
+			const subscription = request.subscribe(data => {
+				resolve(data);
+				subscription.unsubscribe();
+			});
+		});
+	}
+
+	/**
+	 * Stops that happen after a request returned are only reported through the notification channel.
+	 * Resolves to a transport failure if it cannot be opened within the request timeout.
+	 */
+	private connectEvents(): Promise<RuntimeFailure | undefined> {
+		return this.runtimeReady
+			.then(() => this.abandonAfter(this.requestTimeout, undefined, abort => this.getTransport().connect(abort)))
+			.then(() => undefined, error => ({
+				kind: 'transport',
+				message: error instanceof AbandonedRequest ? this.describeTimeout('Debug/Events', this.requestTimeout) : this.describeTransportError(error)
+			}));
+	}
+
+	private handleNotification(data: RuntimeNotification | undefined) {
+		switch (data?.reason) {
+			case 'breakpoint':
+				this.sendEvent('stopOnBreakpoint');
+				break;
+			case 'step':
+				this.sendEvent('stopOnStep');
+				break;
+			case 'pause':
+				this.sendEvent('stopOnPause');
+				break;
+			case 'data':
+				this.sendEvent('stopOnDataBreakpoint', data.access, data.breakpointId);
+				break;
+			case 'fault':
+				this.sendEvent('stopOnException', data.message);
+				break;
+			case 'halt':
+				this.started = false;
+				this.sendEvent('end');
+				break;
+			case 'output':
+				this.sendEvent('output', data.message, this.sourcePath, data.line || 0, 0);
+				break;
+		}
+	}
+
+	/**
+	 * Tries to reach the runtime until it answers or 'runtimeProcess' exits, waiting longer after every failed attempt.
+	 * Resolves to whether the runtime answered.
+	 */
+	private async waitForRuntime(retry: RuntimeRetryPolicy, runtimeProcess?: RuntimeProcess): Promise<boolean> {
+		let delay = retry.delay;
+
+		for (let attempt = 1; !runtimeProcess?.exited; attempt++) {
+			// a runtime that accepts the connection but never answers counts as not ready
+			const ready = await this.abandonAfter(this.requestTimeout, undefined, abort => this.getTransport().isReady(abort)).catch(() => false);
+			if (ready) {
+				return true;
+			}
+			if (attempt >= retry.attempts) {
+				break;
+			}
+
+			await new Promise(resolve => setTimeout(resolve, delay));
+			delay = Math.min(2 * delay, retry.maxDelay);
+		}
+		return false;
+	}
+
+	/**
+	 * Sends a request once the runtime is ready.
+	 * It is answered with an error if the runtime does not answer within 'timeout' milliseconds or 'cancellation' is cancelled first.
+	 */
+	private request(method: RuntimeMethod, controller: RuntimeController, endpoint: string, body?: any, cancellation?: RuntimeCancellation, timeout = this.requestTimeout): Observable<any> {
 		return new Observable(observer => {
-			const url = `http://localhost:5000/${controller}/${endpoint}`;
-			fetch(url, { method, body: body ? JSON.stringify(formatKeysAPI(body)) : undefined, headers: new Headers({ 'content-type': 'application/json' }) })
-				.then(response => {
-					response.json()
-						.then(value => { observer.next(value); observer.complete(); })
-						.catch(error => this.handleError(error, observer));
-				})
-				.catch(error => this.handleError(error, observer));
+			this.runtimeReady
+				.then(() => this.abandonAfter(timeout, cancellation, abort => this.getTransport().request(method, controller, endpoint, body ? formatKeysAPI(body) : undefined, abort)))
+				.then(value => { observer.next(value); observer.complete(); })
+				.catch(error => {
+					if (error instanceof AbandonedRequest) {
+						this.handleAbandoned(error, `${controller}/${endpoint}`, timeout, observer);
+					} else {
+						this.handleError(error, observer);
+					}
+				});
+		});
+	}
+
+	/**
+	 * Rejects with an AbandonedRequest after 'timeout' milliseconds or when 'cancellation' is cancelled, whatever comes first.
+	 * The transport gets its own cancellation for aborting the call then.
+	 */
+	private abandonAfter<T>(timeout: number, cancellation: RuntimeCancellation | undefined, call: (abort: RuntimeCancellation) => Promise<T>): Promise<T> {
+		return new Promise((resolve, reject) => {
+			const abort = new RuntimeCancellation();
+			let timer: NodeJS.Timeout | undefined;
+			let stopListening: (() => void) | undefined;
+
+			const settle = () => {
+				if (timer) {
+					clearTimeout(timer);
+				}
+				stopListening?.();
+			};
+			const abandon = (reason: 'timeout' | 'cancelled') => {
+				settle();
+				reject(new AbandonedRequest(reason));
+				abort.cancel();
+			};
+
+			if (timeout > 0) {
+				timer = setTimeout(() => abandon('timeout'), timeout);
+			}
+			stopListening = cancellation?.onCancel(() => abandon('cancelled'));
+
+			if (!abort.isCancelled) {
+				call(abort).then(value => { settle(); resolve(value); }, error => { settle(); reject(error); });
+			}
 		});
 	}
 
@@ -164,11 +639,90 @@ export class RuntimeClient extends EventEmitter {
 		});
 	}
 
+	/**
+	 * A request that did not reach the runtime is answered with an error like the ones the runtime reports itself.
+	 * Once the program runs, losing the runtime is also reported as a 'transportError' event instead of looking like the end of the program.
+	 */
 	private handleError(error: any, observer: Subscriber<any>) {
-		console.log(error);
-		observer.next(null);
+		const message = this.describeTransportError(error);
+
+		observer.next({ error: message, kind: 'transport' });
 		observer.complete();
-		this.sendEvent('end');
+
+		if (this.started) {
+			this.started = false;
+			this.sendEvent('transportError', message);
+		}
+	}
+
+	/**
+	 * A cancelled request is answered with the error 'cancelled', which the debug adapter does not show.
+	 * A request that timed out is answered like one that did not reach the runtime, but the session goes on, the runtime may only be busy.
+	 */
+	private handleAbandoned(abandoned: AbandonedRequest, route: string, timeout: number, observer: Subscriber<any>) {
+		if (abandoned.reason === 'cancelled') {
+			observer.next({ error: 'cancelled', kind: 'cancelled' });
+			observer.complete();
+			return;
+		}
+
+		const message = this.describeTimeout(route, timeout);
+
+		observer.next({ error: message, kind: 'transport' });
+		observer.complete();
+
+		if (this.started) {
+			this.sendEvent('output', message, undefined, undefined, undefined, 'stderr');
+		}
+	}
+
+	private describeTimeout(route: string, timeout: number): string {
+		return `The MISC runtime at ${this.getTransport().endpoint} did not answer '${route}' within ${timeout} ms. ` +
+			`Check that it is not stuck, or raise 'requestTimeout' in the launch configuration if it needs more time.`;
+	}
+
+	/** Tells the user which endpoint failed and what to check. */
+	private describeTransportError(error: any): string {
+		const endpoint = this.getTransport().endpoint;
+
+		switch (error?.code) {
+			case 'ECONNREFUSED':
+				return `Cannot connect to the MISC runtime at ${endpoint}, nothing is listening there. ` +
+					`Start the runtime, set 'runtimeExecutable' so that it is started for you, or check 'runtimeHost' and 'runtimePort' in the launch configuration.`;
+			case 'ENOTFOUND':
+			case 'EAI_AGAIN':
+				return `Cannot find the host of the MISC runtime at ${endpoint}. Check 'runtimeHost' in the launch configuration.`;
+			case 'ETIMEDOUT':
+				return `The MISC runtime at ${endpoint} did not answer in time. Check that it is running and reachable through the network.`;
+			case 'ECONNRESET':
+				return `The MISC runtime at ${endpoint} dropped the connection. Check the output of the runtime for a crash.`;
+			default:
+				return `Cannot talk to the MISC runtime at ${endpoint}: ${error?.message || error}`;
+		}
+	}
+}
+
+/**
+ * Reads the error a request was answered with.
+ * Runtimes report the source position of load errors in 'line' and 'column' or prefix the message with 'line 3:' (1 based).
+ */
+function toFailure(data: any, kind: 'load' | 'fault'): RuntimeFailure | undefined {
+	if (!data?.error) {
+		return undefined;
+	}
+
+	const failure: RuntimeFailure = { kind: data.kind === 'transport' ? 'transport' : kind, message: `${data.error}`, line: data.line, column: data.column };
+	const prefix = /^line (\d+):\s*(.*)$/i.exec(failure.message);
+	if (failure.kind === 'load' && failure.line === undefined && prefix) {
+		failure.line = parseInt(prefix[1], 10) - 1;
+		failure.message = prefix[2];
+	}
+	return failure;
+}
+
+/** Why the client stopped waiting for the answer to a request. */
+class AbandonedRequest {
+	constructor(readonly reason: 'timeout' | 'cancelled') {
 	}
 }
 
@@ -0,0 +1,84 @@
+import { ChildProcess, spawn } from 'child_process';
+import { EventEmitter } from 'events';
+
+export interface RuntimeProcessOptions {
+	/** Executable that starts the MISC runtime. */
+	executable: string;
+	/** Arguments passed to the executable. */
+	args?: string[];
+	/** Working directory of the runtime. */
+	cwd?: string;
+	/** Environment variables added to the environment of the debug adapter. */
+	env?: { [key: string]: string };
+}
+
+/**
+ * A MISC runtime started by the debug adapter.
+ * Every line the runtime writes to stdout or stderr is emitted as an 'output' event,
+ * an 'exit' event is emitted when the runtime terminates.
+ */
+export class RuntimeProcess extends EventEmitter {
+
+	private process: ChildProcess | undefined;
+	private code: number | null | undefined;
+
+	public get exited(): boolean {
+		return this.code !== undefined;
+	}
+
+	/** null if the runtime could not be started or was killed, undefined while it runs. */
+	public get exitCode(): number | null | undefined {
+		return this.code;
+	}
+
+	public start(options: RuntimeProcessOptions): void {
+		this.process = spawn(options.executable, options.args || [], {
+			cwd: options.cwd,
+			env: { ...process.env, ...options.env }
+		});
+
+		this.pipeLines(this.process.stdout, 'stdout');
+		this.pipeLines(this.process.stderr, 'stderr');
+
+		this.process.on('error', error => {
+			this.emit('output', `${error.message}`, 'stderr');
+			this.setExited(null);
+		});
+		this.process.on('exit', code => this.setExited(code));
+	}
+
+	public kill(): void {
+		if (this.process && !this.exited) {
+			this.process.kill();
+		}
+		this.process = undefined;
+	}
+
+	private pipeLines(stream: NodeJS.ReadableStream | null, category: 'stdout' | 'stderr') {
+		let buffer = '';
+
+		stream?.on('data', (chunk: Buffer | string) => {
+			buffer += chunk.toString();
+
+			const lines = buffer.split(/\r?\n/);
+			buffer = lines.pop() || '';
+
+			for (const line of lines) {
+				this.emit('output', line, category);
+			}
+		});
+		stream?.on('end', () => {
+			if (buffer) {
+				this.emit('output', buffer, category);
+				buffer = '';
+			}
+		});
+	}
+
+	private setExited(code: number | null) {
+		if (!this.exited) {
+			this.code = code;
+			this.emit('exit', code);
+		}
+	}
+}
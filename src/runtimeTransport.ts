@@ -0,0 +1,118 @@
+import { EventEmitter } from 'events';
+
+export type RuntimeMethod = 'GET' | 'POST' | 'PATCH';
+
+export type RuntimeController = 'Breakpoint' | 'Variable' | 'Debug' | 'Stackframe' | 'Memory';
+
+/** The register or memory access that triggered a data breakpoint. */
+export interface RuntimeDataAccess {
+	/** a register like 'R2' or a memory address like '#1F' */
+	target: string;
+	type: 'read' | 'write';
+	oldValue: number;
+	newValue: number;
+}
+
+/**
+ * A notification pushed by the runtime while the program is running.
+ * 'step' is reported when a step over or step out completes, 'pause' when a pause request interrupted the program,
+ * 'data' when data breakpoint 'breakpointId' was triggered by 'access',
+ * 'halt' when the program executes HALT, 'fault' when it cannot continue and 'output' when the program writes 'message' at source 'line'.
+ */
+export interface RuntimeNotification {
+	reason: 'breakpoint' | 'step' | 'pause' | 'data' | 'halt' | 'fault' | 'output';
+	message?: string;
+	line?: number;
+	breakpointId?: number;
+	access?: RuntimeDataAccess;
+}
+
+/**
+ * Tells a transport that nobody waits for the answer to a request any more,
+ * because it took too long or because VS Code cancelled the request it was made for.
+ * Transports abort the request if they can.
+ */
+export class RuntimeCancellation {
+
+	private listeners: (() => void)[] = [];
+	private cancelled = false;
+
+	public get isCancelled(): boolean {
+		return this.cancelled;
+	}
+
+	public cancel() {
+		if (!this.cancelled) {
+			this.cancelled = true;
+			this.listeners.splice(0).forEach(listener => listener());
+		}
+	}
+
+	/** Calls 'listener' once when cancelled, right away if that already happened. Returns a function that removes the listener. */
+	public onCancel(listener: () => void): () => void {
+		if (this.cancelled) {
+			listener();
+			return () => undefined;
+		}
+		this.listeners.push(listener);
+		return () => {
+			this.listeners = this.listeners.filter(l => l !== listener);
+		};
+	}
+}
+
+/**
+ * The channel between the RuntimeClient and a MISC runtime.
+ * Requests address the runtime's controllers and endpoints, the body keys are already capitalized.
+ * A transport emits a 'notification' event for every RuntimeNotification pushed by the runtime,
+ * a 'close' event when the runtime goes away after 'connect'
+ * and an 'error' event for problems that do not fail a request, like a notification it cannot read.
+ */
+export interface RuntimeTransport extends EventEmitter {
+	/** Where the runtime is reached, for messages, e.g. 'http://localhost:5000'. */
+	readonly endpoint: string;
+	/**
+	 * Opens the channel for notifications, rejects if it cannot. Calling it again has no effect.
+	 * After 'cancellation' is cancelled the channel is not opened any more.
+	 */
+	connect(cancellation?: RuntimeCancellation): Promise<void>;
+	/**
+	 * Sends a request and resolves to the decoded response body. Rejects if the runtime cannot be reached.
+	 * After 'cancellation' is cancelled the result is ignored, so transports may abort the request or just let it finish.
+	 */
+	request(method: RuntimeMethod, controller: RuntimeController, endpoint: string, body?: any, cancellation?: RuntimeCancellation): Promise<any>;
+	/** Resolves to true as soon as the runtime answers requests. */
+	isReady(cancellation?: RuntimeCancellation): Promise<boolean>;
+	dispose(): void;
+}
+
+/**
+ * Something that answers runtime requests in-process, like the embedded MISC emulator or a fake in tests.
+ */
+export interface RuntimeHandler {
+	handle(method: RuntimeMethod, controller: RuntimeController, endpoint: string, body?: any): Promise<any>;
+	dispose?(): void;
+}
+
+/** The launch and attach attributes that select a transport. */
+export interface RuntimeTransportConfiguration {
+	runtime?: 'external' | 'embedded';
+	transport?: 'http' | 'tcp';
+	runtimeHost?: string;
+	runtimePort?: number;
+}
+
+/**
+ * How the debug adapter waits for a runtime that is still starting.
+ * It tries up to 'attempts' times and waits 'delay' milliseconds after the first failed attempt, doubling the wait after every further one.
+ */
+export interface RuntimeRetryPolicy {
+	attempts: number;
+	delay: number;
+	/** the longest wait between two attempts */
+	maxDelay: number;
+}
+
+export interface RuntimeTransportFactory {
+	createTransport(configuration: RuntimeTransportConfiguration): RuntimeTransport;
+}
@@ -0,0 +1,140 @@
+import { EventEmitter } from 'events';
+import { createConnection, Socket } from 'net';
+import { RuntimeCancellation, RuntimeController, RuntimeMethod, RuntimeTransport } from './runtimeTransport';
+
+interface PendingRequest {
+	resolve: (value: any) => void;
+	reject: (reason: any) => void;
+}
+
+/**
+ * Talks to a MISC runtime over a raw TCP connection carrying JSON lines.
+ * A request is sent as { id, method, controller, endpoint, body } and answered with { id, result } or { id, error },
+ * lines of the form { notification } are pushed by the runtime at any time.
+ */
+export class SocketTransport extends EventEmitter implements RuntimeTransport {
+
+	private socket: Socket | undefined;
+	private connecting: Promise<Socket> | undefined;
+	private pending = new Map<number, PendingRequest>();
+	private nextId = 1;
+	private disposed = false;
+
+	constructor(private host: string, private port: number) {
+		super();
+	}
+
+	public get endpoint(): string {
+		return `tcp://${this.host}:${this.port}`;
+	}
+
+	public async request(method: RuntimeMethod, controller: RuntimeController, endpoint: string, body?: any, cancellation?: RuntimeCancellation): Promise<any> {
+		const socket = await this.open();
+		const id = this.nextId++;
+
+		return new Promise((resolve, reject) => {
+			let stopListening: (() => void) | undefined;
+			this.pending.set(id, {
+				resolve: value => { stopListening?.(); resolve(value); },
+				reject: error => { stopListening?.(); reject(error); }
+			});
+			socket.write(`${JSON.stringify({ id, method, controller, endpoint, body })}\n`);
+
+			// the protocol cannot take a request back, so a late answer is dropped in 'handleLine'
+			stopListening = cancellation?.onCancel(() => {
+				if (this.pending.delete(id)) {
+					reject(new Error('request cancelled'));
+				}
+			});
+		});
+	}
+
+	public isReady(): Promise<boolean> {
+		return this.open().then(() => true, () => false);
+	}
+
+	public connect(): Promise<void> {
+		// the requests that follow report that the runtime cannot be reached
+		return this.open().then(() => undefined, () => undefined);
+	}
+
+	public dispose(): void {
+		this.disposed = true;
+		this.socket?.destroy();
+		this.socket = undefined;
+	}
+
+	/** Connects once and reuses the connection for all requests. */
+	private open(): Promise<Socket> {
+		if (!this.connecting) {
+			this.connecting = new Promise((resolve, reject) => {
+				const socket = createConnection({ host: this.host, port: this.port });
+				let buffer = '';
+
+				socket.once('connect', () => {
+					this.socket = socket;
+					resolve(socket);
+				});
+				socket.on('data', chunk => {
+					buffer += chunk.toString();
+
+					const lines = buffer.split(/\r?\n/);
+					buffer = lines.pop() || '';
+
+					for (const line of lines) {
+						if (line.trim()) {
+							this.handleLine(line);
+						}
+					}
+				});
+				socket.on('error', error => {
+					// allow to connect again, e.g. while waiting for a runtime to start
+					if (this.socket !== socket) {
+						this.connecting = undefined;
+						reject(error);
+					}
+				});
+				socket.on('close', () => {
+					if (this.socket !== socket) {
+						return;
+					}
+
+					// the next request connects again
+					this.socket = undefined;
+					this.connecting = undefined;
+					for (const request of this.pending.values()) {
+						request.reject(new Error('connection to runtime closed'));
+					}
+					this.pending.clear();
+
+					if (!this.disposed) {
+						this.emit('close');
+					}
+				});
+			});
+		}
+
+		return this.connecting;
+	}
+
+	private handleLine(line: string) {
+		let message: any;
+		try {
+			message = JSON.parse(line);
+		} catch (error) {
+			this.emit('error', new Error(`Ignored a line the runtime sent that is not JSON: ${line}`));
+			return;
+		}
+
+		if (message.notification) {
+			this.emit('notification', message.notification);
+			return;
+		}
+
+		const request = this.pending.get(message.id);
+		if (request) {
+			this.pending.delete(message.id);
+			request.resolve(message.result !== undefined ? message.result : { error: message.error });
+		}
+	}
+}
@@ -0,0 +1,142 @@
+/**
+ * The source breakpoints of a debug session, kept by the debug adapter for every source file.
+ * A 'setBreakpoints' request replaces the breakpoints of one source, but breakpoints that are requested again keep their id
+ * and hit count, and the runtime only hears about the lines that were added or removed.
+ * Breakpoints stop at instructions of the assembled source, a breakpoint on a blank, comment or label-only line
+ * moves to the next instruction, or to the last one if there is none after it.
+ */
+
+import { BreakpointConditions } from './breakpointConditions';
+import { MiscProgram } from './miscMachine';
+
+export interface RequestedBreakpoint {
+	/** 0 based line the breakpoint was set on */
+	line: number;
+	condition?: string;
+	hitCondition?: string;
+	logMessage?: string;
+}
+
+export interface ManagedBreakpoint {
+	/** stays the same as long as the breakpoint is requested on the same line */
+	id: number;
+	requestedLine: number;
+	/** 0 based line of the instruction the breakpoint stops at, the requested line if the source has no instruction */
+	line: number;
+	/** true once the runtime loaded the source and there is an instruction at 'line' */
+	verified: boolean;
+	/** only for conditional breakpoints and logpoints */
+	conditions?: BreakpointConditions;
+}
+
+export interface BreakpointChanges {
+	/** the breakpoints of the source in the order they were requested */
+	breakpoints: ManagedBreakpoint[];
+	/** lines that had no breakpoint before */
+	added: number[];
+	/** lines that have no breakpoint any more */
+	removed: number[];
+}
+
+export class SourceBreakpoints {
+
+	private sources = new Map<string, ManagedBreakpoint[]>();
+	private loaded: string | undefined;
+	private nextId = 1;
+
+	/** The source of the program the runtime loaded. */
+	public get loadedSource(): string | undefined {
+		return this.loaded;
+	}
+
+	/** Replaces the breakpoints of 'source', 'program' is the assembled source or undefined if it cannot be read. */
+	public set(source: string, requested: RequestedBreakpoint[], program: MiscProgram | undefined): BreakpointChanges {
+		const before = this.lines(source);
+		const previous = (this.sources.get(source) || []).slice();
+
+		const breakpoints = requested.map(request => {
+			const index = previous.findIndex(breakpoint => breakpoint.requestedLine === request.line);
+			const kept = index >= 0 ? previous.splice(index, 1)[0] : undefined;
+
+			const breakpoint: ManagedBreakpoint = {
+				id: kept ? kept.id : this.nextId++,
+				requestedLine: request.line,
+				line: request.line,
+				verified: false,
+				conditions: kept?.conditions && sameConditions(kept.conditions, request) ? kept.conditions : createConditions(request)
+			};
+			this.place(breakpoint, source, program);
+			return breakpoint;
+		});
+
+		this.sources.set(source, breakpoints);
+
+		const after = this.lines(source);
+		return {
+			breakpoints,
+			added: after.filter(line => !before.includes(line)),
+			removed: before.filter(line => !after.includes(line))
+		};
+	}
+
+	/**
+	 * The runtime loaded 'program' from 'source', which verifies the breakpoints of the source.
+	 * Returns the breakpoints whose line or verification changed.
+	 */
+	public load(source: string, program: MiscProgram): ManagedBreakpoint[] {
+		this.loaded = source;
+
+		return (this.sources.get(source) || []).filter(breakpoint => {
+			const { line, verified } = breakpoint;
+			this.place(breakpoint, source, program);
+			return breakpoint.line !== line || breakpoint.verified !== verified;
+		});
+	}
+
+	public get(source: string): ManagedBreakpoint[] {
+		return this.sources.get(source) || [];
+	}
+
+	/** The lines the runtime should break on, in ascending order. */
+	public lines(source: string): number[] {
+		return Array.from(new Set(this.get(source).map(breakpoint => breakpoint.line))).sort((a, b) => a - b);
+	}
+
+	/**
+	 * The conditions to check by line, for the lines with a conditional breakpoint or logpoint.
+	 * All breakpoints on such a line are listed, an unconditional one without conditions, so it always stops.
+	 */
+	public conditions(source: string): Map<number, BreakpointConditions[]> {
+		const conditions = new Map<number, BreakpointConditions[]>();
+		const conditional = new Set(this.get(source).filter(breakpoint => breakpoint.conditions).map(breakpoint => breakpoint.line));
+
+		for (const breakpoint of this.get(source)) {
+			if (conditional.has(breakpoint.line)) {
+				conditions.set(breakpoint.line, (conditions.get(breakpoint.line) || []).concat(breakpoint.conditions || { hits: 0 }));
+			}
+		}
+		return conditions;
+	}
+
+	private place(breakpoint: ManagedBreakpoint, source: string, program: MiscProgram | undefined) {
+		const line = program ? snapToInstruction(program, breakpoint.requestedLine) : undefined;
+
+		breakpoint.line = line ?? breakpoint.requestedLine;
+		breakpoint.verified = line !== undefined && source === this.loaded;
+	}
+}
+
+/** The line of the instruction a breakpoint on 'line' stops at, undefined if the program has no instructions. */
+export function snapToInstruction(program: MiscProgram, line: number): number | undefined {
+	const next = program.instructions.find(instruction => instruction.line >= line);
+	const last = program.instructions[program.instructions.length - 1];
+	return next ? next.line : last?.line;
+}
+
+function sameConditions(conditions: BreakpointConditions, request: RequestedBreakpoint): boolean {
+	return conditions.condition === request.condition && conditions.hitCondition === request.hitCondition && conditions.logMessage === request.logMessage;
+}
+
+function createConditions({ condition, hitCondition, logMessage }: RequestedBreakpoint): BreakpointConditions | undefined {
+	return condition || hitCondition || logMessage ? { condition, hitCondition, logMessage, hits: 0 } : undefined;
+}
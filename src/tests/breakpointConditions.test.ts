@@ -0,0 +1,64 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import assert = require('assert');
+import { BreakpointConditions, BreakpointDecision, checkHitCondition, decideBreakpoint, interpolateLogMessage } from '../breakpointConditions';
+import { ExpressionContext } from '../miscExpression';
+
+suite('Breakpoint Conditions', () => {
+
+	const context: ExpressionContext = {
+		registers: new Map([['R1', 3], ['R2', 0x2A]]),
+		async readWord(address: number) {
+			return address === 0x10 ? 7 : undefined;
+		}
+	};
+
+	/** Decides a breakpoint with these conditions 'count' times. */
+	async function decide(conditions: Omit<BreakpointConditions, 'hits'>, count: number) {
+		const breakpoint: BreakpointConditions = { ...conditions, hits: 0 };
+		const decisions: BreakpointDecision[] = [];
+		for (let i = 0; i < count; i++) {
+			decisions.push(await decideBreakpoint(breakpoint, context));
+		}
+		return decisions;
+	}
+
+	test('should check hit conditions', () => {
+		assert.deepStrictEqual([1, 2, 3].map(hits => checkHitCondition('>= 2', hits)), [false, true, true]);
+		assert.deepStrictEqual([1, 2, 3, 4].map(hits => checkHitCondition('%2', hits)), [false, true, false, true]);
+		assert.deepStrictEqual([2, 3].map(hits => checkHitCondition('== 3', hits)), [false, true]);
+		assert.deepStrictEqual([2, 3].map(hits => checkHitCondition('3', hits)), [false, true]);
+		assert.strictEqual(checkHitCondition('% 0', 4), false);
+		assert.strictEqual(checkHitCondition('every 3rd', 3), `Invalid hit condition 'every 3rd'`);
+	});
+
+	test('should count hits and stop once the hit condition is met', async () => {
+		const decisions = await decide({ hitCondition: '>= 2' }, 3);
+
+		assert.deepStrictEqual(decisions.map(decision => decision.stop), [false, true, true]);
+		assert.deepStrictEqual(await decide({ hitCondition: 'twice' }, 1), [{ stop: true, error: `Invalid hit condition 'twice'` }]);
+	});
+
+	test('should only stop if the condition holds and stop on conditions that fail', async () => {
+		assert.deepStrictEqual(await decide({ condition: 'R1 == 3' }, 1), [{ stop: true }]);
+		assert.deepStrictEqual(await decide({ condition: 'R1 - 3' }, 1), [{ stop: false }]);
+		assert.deepStrictEqual(await decide({ condition: 'R9 == 0' }, 1), [{ stop: true, error: `Unknown register 'R9'` }]);
+		assert.deepStrictEqual(await decide({ condition: '[#11] == 0' }, 1), [{ stop: true, error: 'Cannot read memory at #11' }]);
+	});
+
+	test('should log instead of stopping', async () => {
+		assert.deepStrictEqual(await decide({ logMessage: 'R1 is {R1}, R2 is {R2,h}, at #10 {[#10]}' }, 1), [{ stop: false, log: 'R1 is 3, R2 is #2A, at #10 7' }]);
+		assert.deepStrictEqual(await decide({ condition: 'R1 == 0', logMessage: 'R1 is {R1}' }, 1), [{ stop: false }]);
+		assert.strictEqual(await interpolateLogMessage('{R1 +} and {} stay, {R1 * 2} does not', context), '{R1 +} and {} stay, 6 does not');
+	});
+
+	test('should not count the hit when running backwards', async () => {
+		const breakpoint: BreakpointConditions = { hitCondition: '2', hits: 2 };
+
+		assert.deepStrictEqual(await decideBreakpoint(breakpoint, context, false), { stop: true });
+		assert.strictEqual(breakpoint.hits, 2);
+	});
+});
@@ -0,0 +1,306 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import assert = require('assert');
+import { DebugProtocol } from 'vscode-debugprotocol';
+import { DebugSession } from '../debugSession';
+import { EmbeddedRuntime } from '../embeddedRuntime';
+import { InMemoryTransport } from '../inMemoryTransport';
+import { INSTRUCTION_SIZE, MEMORY_SIZE } from '../miscMachine';
+import { RuntimeClient } from '../runtimeClient';
+import { RuntimeTransport } from '../runtimeTransport';
+
+suite('Debug Session', () => {
+
+	const sources: { [path: string]: string } = {
+		'/call.misc': 'MOV R1 #0\nCALL sub\nMOV R2 #5\nHALT\nsub: ADD R1 #1\nRET\n',
+		'/forever.misc': 'loop: ADD R1 #1\nBZ R2 loop\n',
+		'/countdown.misc': 'MOV R1 #3\nloop: SUB R1 #1\nBZ R1 done\nBZ R2 loop\ndone: HALT\n',
+		'/pointer.misc': 'MOV R1 #20\nMOV R2 #20\nMOV [R1] #7\nHALT\n'
+	};
+
+	let transport: RuntimeTransport;
+	let session: DebugSession;
+	let seq: number;
+	let responses: Map<number, (response: DebugProtocol.Response) => void>;
+	let events: DebugProtocol.Event[];
+	let eventListeners: ((event: DebugProtocol.Event) => void)[];
+
+	setup(() => {
+		transport = new InMemoryTransport(notify => new EmbeddedRuntime(notify));
+		session = new DebugSession({ readFile: async path => sources[path] }, { createTransport: () => transport });
+		seq = 1;
+		responses = new Map();
+		events = [];
+		eventListeners = [];
+
+		session.onDidSendMessage(message => {
+			const sent = message as DebugProtocol.ProtocolMessage;
+			if (sent.type === 'response') {
+				const response = sent as DebugProtocol.Response;
+				responses.get(response.request_seq)?.(response);
+			} else if (sent.type === 'event') {
+				events.push(sent as DebugProtocol.Event);
+				eventListeners.forEach(listener => listener(sent as DebugProtocol.Event));
+			}
+		});
+	});
+
+	teardown(() => request('disconnect'));
+
+	function request(command: string, args?: any): Promise<DebugProtocol.Response> {
+		const request: DebugProtocol.Request = { seq: seq++, type: 'request', command, arguments: args };
+		const response = new Promise<DebugProtocol.Response>(resolve => responses.set(request.seq, resolve));
+		session.handleMessage(request);
+		return response;
+	}
+
+	function nextEvent(name: string): Promise<DebugProtocol.Event> {
+		return new Promise(resolve => eventListeners.push(event => event.event === name && resolve(event)));
+	}
+
+	/** Launches a program on the embedded runtime, 'breakpoints' are set during the configuration sequence. */
+	async function launch(program: string, stopOnEntry: boolean, breakpoints: DebugProtocol.SourceBreakpoint[] = []) {
+		await request('initialize', { adapterID: 'mock', linesStartAt1: true, columnsStartAt1: true });
+		const launched = request('launch', { program, runtime: 'embedded', stopOnEntry });
+		await request('setBreakpoints', { source: { path: program }, breakpoints });
+		await request('configurationDone');
+		return launched;
+	}
+
+	async function currentLine() {
+		const { body } = await request('stackTrace', { threadId: 1 }) as DebugProtocol.StackTraceResponse;
+		return body.stackFrames[0].line;
+	}
+
+	/** The variables of the scope 'name' of the top stack frame. */
+	async function scopeVariables(name: string, format?: DebugProtocol.ValueFormat) {
+		const { body: { stackFrames } } = await request('stackTrace', { threadId: 1 }) as DebugProtocol.StackTraceResponse;
+		const { body: { scopes } } = await request('scopes', { frameId: stackFrames[0].id }) as DebugProtocol.ScopesResponse;
+		const scope = scopes.find(candidate => candidate.name === name)!;
+		const { body } = await request('variables', { variablesReference: scope.variablesReference, format }) as DebugProtocol.VariablesResponse;
+		return body.variables;
+	}
+
+	test('should step over a CALL past breakpoints that do not stop', async () => {
+		const entry = nextEvent('stopped');
+		await launch('/call.misc', true, [{ line: 5, condition: 'R1 == 99' }, { line: 6, logMessage: 'returning with R1 = {R1}' }]);
+		await entry;
+
+		for (const expectedLine of [2, 3]) {
+			const stopped = nextEvent('stopped');
+			await request('next', { threadId: 1 });
+			assert.strictEqual((await stopped).body.reason, 'step');
+			assert.strictEqual(await currentLine(), expectedLine);
+		}
+
+		const logged = events.filter(event => event.event === 'output' && event.body.category === 'console').map(event => event.body.output);
+		assert.deepStrictEqual(logged, ['returning with R1 = 1\n']);
+	});
+
+	test('should check the conditions of breakpoints set while an external runtime is still starting', async () => {
+		let runtimeStarted = () => {};
+		transport.isReady = () => new Promise(resolve => runtimeStarted = () => resolve(true));
+
+		await request('initialize', { adapterID: 'mock', linesStartAt1: true, columnsStartAt1: true });
+		const launched = request('launch', { program: '/countdown.misc', runtime: 'external' });
+		await request('setBreakpoints', { source: { path: '/countdown.misc' }, breakpoints: [{ line: 2, condition: 'R1 == 2' }, { line: 3, logMessage: 'R1 is {R1}' }] });
+		await request('configurationDone');
+
+		const stopped = nextEvent('stopped');
+		runtimeStarted();
+		assert.ok((await launched).success);
+		assert.strictEqual((await stopped).body.reason, 'breakpoint');
+
+		const { body } = await request('evaluate', { expression: 'R1' }) as DebugProtocol.EvaluateResponse;
+		assert.strictEqual(body.result, '2');
+		assert.deepStrictEqual(events.filter(event => event.event === 'output' && event.body.category === 'console').map(event => event.body.output), ['R1 is 2\n']);
+	});
+
+	test('should attach to a runtime that already runs the program', async () => {
+		// the embedded runtime cannot be attached to, so another client starts it and it answers for its status like an external one
+		const starter = new RuntimeClient({ readFile: async path => sources[path] });
+		starter.setTransport(transport);
+		await starter.start('/call.misc', true);
+		const forward = transport.request.bind(transport);
+		transport.request = (method, controller, endpoint, body) => endpoint === 'Status' ? Promise.resolve({ event: 'stopOnEntry' }) : forward(method, controller, endpoint, body);
+
+		await request('initialize', { adapterID: 'mock', linesStartAt1: true, columnsStartAt1: true });
+		const entry = nextEvent('stopped');
+		const attached = request('attach', { program: '/call.misc' });
+		const { body } = await request('setBreakpoints', { source: { path: '/call.misc' }, breakpoints: [{ line: 3 }] }) as DebugProtocol.SetBreakpointsResponse;
+		await request('configurationDone');
+
+		assert.ok((await attached).success);
+		assert.strictEqual((await entry).body.reason, 'entry');
+		assert.strictEqual(await currentLine(), 1);
+
+		const stopped = nextEvent('stopped');
+		await request('continue', { threadId: 1 });
+		assert.strictEqual((await stopped).body.reason, 'breakpoint');
+		assert.strictEqual(await currentLine(), 3);
+		assert.strictEqual(body.breakpoints[0].line, 3);
+	});
+
+	test('should stop when a watched register or memory word is written', async () => {
+		const entry = nextEvent('stopped');
+		await launch('/pointer.misc', true);
+		await entry;
+
+		const infos = await Promise.all(['r2', '[#20]', 'SP'].map(name => request('dataBreakpointInfo', { name }))) as DebugProtocol.DataBreakpointInfoResponse[];
+		assert.deepStrictEqual(infos.map(info => info.body.dataId), ['R2', '#20', null]);
+		assert.strictEqual(infos[2].body.description, `'SP' cannot be watched`);
+
+		const { body } = await request('setDataBreakpoints', { breakpoints: [{ dataId: '#20', accessType: 'write' }] }) as DebugProtocol.SetDataBreakpointsResponse;
+		assert.strictEqual(body.breakpoints.length, 1);
+		assert.ok(body.breakpoints[0].verified);
+
+		const stopped = nextEvent('stopped');
+		await request('continue', { threadId: 1 });
+		const { body: { reason, description, hitBreakpointIds } } = await stopped;
+
+		assert.deepStrictEqual([reason, description, hitBreakpointIds], ['data breakpoint', '#20 written: 0 → 7', [body.breakpoints[0].id]]);
+		assert.strictEqual(await currentLine(), 4);
+	});
+
+	test('should change registers from the Variables and Watch views and reject invalid values', async () => {
+		const entry = nextEvent('stopped');
+		await launch('/call.misc', true);
+		await entry;
+
+		const { body: { scopes } } = await request('scopes', { frameId: 0 }) as DebugProtocol.ScopesResponse;
+		const variablesReference = scopes[0].variablesReference;
+		const invalidated = nextEvent('invalidated');
+
+		const changed = await request('setVariable', { variablesReference, name: 'R1', value: '#2A' }) as DebugProtocol.SetVariableResponse;
+		assert.strictEqual(changed.body.value, '42');
+		assert.deepStrictEqual((await invalidated).body.areas, ['variables']);
+
+		const watched = await request('setExpression', { expression: ' r2 ', value: '0b101' }) as DebugProtocol.SetExpressionResponse;
+		assert.strictEqual(watched.body.value, '5');
+		assert.deepStrictEqual((await scopeVariables('Registers')).slice(0, 2).map(variable => variable.value), ['42', '5']);
+
+		const rejected = await Promise.all([
+			request('setVariable', { variablesReference, name: 'R1', value: 'lots' }),
+			request('setVariable', { variablesReference, name: 'R1', value: '70000' }),
+			request('setVariable', { variablesReference, name: 'SP', value: '0' }),
+			request('setExpression', { expression: 'R1 + 1', value: '1' })
+		]);
+		assert.ok(rejected.every(response => !response.success));
+		assert.deepStrictEqual(rejected.map(response => (response.body.error as DebugProtocol.Message).format), [
+			`Invalid value 'lots', expected a decimal, '#' hex or '0b' binary number`,
+			`Value '70000' is out of range, registers hold 0 to 65535`,
+			`Cannot set 'SP': 'SP' cannot be changed, only R1 to R8`,
+			`Cannot set 'R1 + 1': 'R1 + 1' cannot be changed, only R1 to R8`
+		]);
+	});
+
+	test('should split variables into registers, flags and memory pages', async () => {
+		const stopped = nextEvent('stopped');
+		await launch('/call.misc', false, [{ line: 5 }]);
+		await stopped;
+
+		const { body: { stackFrames } } = await request('stackTrace', { threadId: 1 }) as DebugProtocol.StackTraceResponse;
+		const scopesOf = await Promise.all(stackFrames.map(frame => request('scopes', { frameId: frame.id }))) as DebugProtocol.ScopesResponse[];
+		const variablesOf = async (variablesReference: number) => ((await request('variables', { variablesReference })) as DebugProtocol.VariablesResponse).body.variables;
+
+		const [registers, flags, memory] = scopesOf[0].body.scopes;
+		assert.deepStrictEqual([registers, flags, memory].map(scope => [scope.name, scope.expensive]), [['Registers', false], ['Flags', false], ['Memory', true]]);
+
+		// the calling frame shows the PC of its CALL
+		const pcs = await Promise.all(scopesOf.map(async scopes => (await variablesOf(scopes.body.scopes[0].variablesReference)).find(variable => variable.name === 'PC')!.value));
+		assert.deepStrictEqual(pcs, [`${4 * INSTRUCTION_SIZE}`, `${INSTRUCTION_SIZE}`]);
+
+		const [status] = await variablesOf(flags.variablesReference);
+		assert.deepStrictEqual((await variablesOf(status.variablesReference)).map(flag => [flag.name, flag.value]), [['Z', '0'], ['C', '0'], ['N', '0']]);
+
+		const pages = await variablesOf(memory.variablesReference);
+		assert.strictEqual(pages.length, MEMORY_SIZE / 0x40);
+		assert.deepStrictEqual([pages[0].name, pages[0].value, pages[0].memoryReference], ['#0..#3F', '32 words', '#0']);
+
+		// the return address lies on the stack in the last page
+		const words = await variablesOf(pages[pages.length - 1].variablesReference);
+		assert.strictEqual(words.length, 32);
+		assert.deepStrictEqual([words[31].name, words[31].value, words[31].evaluateName], [`#${(MEMORY_SIZE - 2).toString(16).toUpperCase()}`, `${2 * INSTRUCTION_SIZE}`, `[#${(MEMORY_SIZE - 2).toString(16).toUpperCase()}]`]);
+	});
+
+	test('should toggle the number format of all values or of single variables', async () => {
+		const entry = nextEvent('stopped');
+		await launch('/call.misc', true);
+		await entry;
+		await request('setExpression', { expression: 'R1', value: '#FFFF' });
+
+		const shown = async () => {
+			const registers = await scopeVariables('Registers');
+			const { body } = await request('evaluate', { expression: 'R2' }) as DebugProtocol.EvaluateResponse;
+			return [registers[0].value, registers[1].value, body.result];
+		};
+
+		const toggled = nextEvent('invalidated');
+		await request('toggleFormatting');
+		assert.deepStrictEqual((await toggled).body.areas, ['variables']);
+		assert.deepStrictEqual(await shown(), ['#FFFF', '#0', '#0']);
+
+		await request('toggleFormatting', { variable: { evaluateName: 'R1' } });
+		assert.deepStrictEqual(await shown(), ['0b1111111111111111', '#0', '#0']);
+		await request('toggleFormatting', { variable: { evaluateName: 'R1' } });
+		assert.deepStrictEqual(await shown(), ['-1', '#0', '#0']);
+
+		// toggling all values drops the format chosen for R1
+		await request('toggleFormatting');
+		assert.deepStrictEqual(await shown(), ['0b1111111111111111', '0b0', '0b0']);
+		// only a format chosen for the variable wins over hex requested by VS Code
+		assert.deepStrictEqual((await scopeVariables('Registers', { hex: true })).slice(0, 2).map(variable => variable.value), ['#FFFF', '#0']);
+		assert.deepStrictEqual((await scopeVariables('Flags'))[0].value, '0b0');
+	});
+
+	test('should pause a running program', async () => {
+		await launch('/forever.misc', false);
+
+		const stopped = nextEvent('stopped');
+		await request('pause', { threadId: 1 });
+
+		assert.strictEqual((await stopped).body.reason, 'pause');
+		assert.ok([1, 2].includes(await currentLine()));
+	});
+
+	test('should read memory and report what lies past its end', async () => {
+		const entry = nextEvent('stopped');
+		await launch('/call.misc', true);
+		await entry;
+
+		const { body } = await request('readMemory', { memoryReference: `#${(MEMORY_SIZE - 2).toString(16)}`, count: 8 }) as DebugProtocol.ReadMemoryResponse;
+
+		assert.deepStrictEqual(body, { address: `0x${(MEMORY_SIZE - 2).toString(16).toUpperCase()}`, data: 'AAA=', unreadableBytes: 6 });
+	});
+
+	test('should only give memory references to registers used as addresses', async () => {
+		const stopped = nextEvent('stopped');
+		await launch('/pointer.misc', false, [{ line: 4 }]);
+		await stopped;
+
+		const registers = await scopeVariables('Registers');
+		const memoryReferences = new Map(registers.map(variable => [variable.name, variable.memoryReference]));
+
+		assert.strictEqual(memoryReferences.get('R1'), '#20');
+		assert.strictEqual(memoryReferences.get('R2'), undefined);
+		assert.ok(memoryReferences.get('SP') && memoryReferences.get('PC'));
+	});
+
+	test('should pad the disassembly before address 0 with placeholders', async () => {
+		const entry = nextEvent('stopped');
+		await launch('/call.misc', true);
+		await entry;
+
+		const { body } = await request('disassemble', { memoryReference: '0x0', instructionOffset: -2, instructionCount: 4 }) as DebugProtocol.DisassembleResponse;
+
+		assert.deepStrictEqual(body!.instructions.map(instruction => [instruction.address, instruction.instruction]), [
+			[`${-2 * INSTRUCTION_SIZE}`, '??'],
+			[`${-INSTRUCTION_SIZE}`, '??'],
+			['0x0', 'MOV R1 #0'],
+			[`0x${INSTRUCTION_SIZE.toString(16).toUpperCase()}`, 'CALL sub']
+		]);
+	});
+});
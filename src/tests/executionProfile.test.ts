@@ -0,0 +1,46 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import assert = require('assert');
+import { ExecutionProfile, formatProfileReport } from '../executionProfile';
+
+suite('Execution Profile', () => {
+
+	test('should count lines and include called routines in the counts of their callers', () => {
+		const profile = new ExecutionProfile();
+
+		profile.record(1);
+		profile.enter('outer', 8);
+		profile.record(3);
+		profile.enter('inner', 16);
+		profile.record(5);
+		profile.record(5);
+		profile.leave();
+		profile.record(4);
+		profile.leave();
+		profile.record(2);
+
+		const summary = profile.summary('test.misc');
+		assert.strictEqual(summary.instructions, 6);
+		assert.deepStrictEqual(summary.lines.map(line => [line.line, line.executions]), [[1, 1], [2, 1], [3, 1], [4, 1], [5, 2]]);
+		assert.deepStrictEqual(summary.routines.map(routine => [routine.name, routine.calls, routine.instructions]), [['outer', 1, 4], ['inner', 1, 2]]);
+		assert.strictEqual(summary.cycles, undefined);
+	});
+
+	test('should add the cycles reported by the runtime', () => {
+		const profile = new ExecutionProfile();
+
+		profile.enter('loop', 0);
+		profile.record(1);
+		profile.addCycles(1, 3);
+		profile.record(1);
+		profile.addCycles(1, 2);
+
+		const summary = profile.summary('test.misc');
+		assert.strictEqual(summary.cycles, 5);
+		assert.deepStrictEqual([summary.lines[0].cycles, summary.routines[0].cycles], [5, 5]);
+		assert.ok(formatProfileReport(summary, 'loop: SUB R1 #1 ; count').includes('| 1 | `loop: SUB R1 #1` | 2 | 100.0% | 5 |'));
+	});
+});
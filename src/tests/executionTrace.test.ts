@@ -0,0 +1,57 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import assert = require('assert');
+import { ExecutionTrace } from '../executionTrace';
+import { RuntimeVariable } from '../runtimeClient';
+
+suite('Execution Trace', () => {
+
+	/** Turns 'R1=0 PC=4' into register variables. */
+	function registers(values: string): RuntimeVariable[] {
+		return values.split(' ').map(pair => {
+			const [name, value] = pair.split('=');
+			return { name, value, type: 'register', evaluateName: name };
+		});
+	}
+
+	test('should record the changed registers without the program counter', () => {
+		const trace = new ExecutionTrace();
+
+		trace.record(1, 'MOV', registers('R1=0 SP=1024 PC=0'), registers('R1=5 SP=1024 PC=4'));
+		trace.record(2, 'HALT', registers('R1=5 SP=1024 PC=4'), registers('R1=5 SP=1024 PC=4'));
+
+		assert.strictEqual(trace.toJsonLines(),
+			'{"index":0,"pc":0,"line":1,"opcode":"MOV","changes":[{"name":"R1","oldValue":"0","newValue":"5"}]}\n' +
+			'{"index":1,"pc":4,"line":2,"opcode":"HALT","changes":[]}\n');
+		assert.strictEqual(trace.toCsv(), 'index,pc,line,opcode,changes\n0,0,1,MOV,R1=0->5\n1,4,2,HALT,\n');
+	});
+
+	test('should drop the oldest instructions beyond the limit', () => {
+		const trace = new ExecutionTrace(2);
+
+		for (let pc = 0; pc < 12; pc += 4) {
+			trace.record(pc / 4 + 1, 'ADD', registers(`PC=${pc}`), registers(`PC=${pc + 4}`));
+		}
+
+		assert.deepStrictEqual(trace.entries.map(entry => [entry.index, entry.pc]), [[1, 4], [2, 8]]);
+	});
+
+	test('should drop the instructions that were stepped back over', () => {
+		const trace = new ExecutionTrace(4);
+		for (const pc of [0, 4, 8, 4, 8, 12]) {
+			trace.record(pc / 4 + 1, 'ADD', registers(`PC=${pc}`), registers(`PC=${pc + 4}`));
+		}
+
+		trace.rewind(8);
+		assert.deepStrictEqual(trace.entries.map(entry => [entry.index, entry.pc]), [[2, 8], [3, 4]]);
+
+		trace.record(3, 'ADD', registers('PC=8'), registers('PC=12'));
+		assert.deepStrictEqual(trace.entries.map(entry => [entry.index, entry.pc]), [[2, 8], [3, 4], [4, 8]]);
+
+		trace.rewind(0);
+		assert.strictEqual(trace.length, 0);
+	});
+});
@@ -0,0 +1,43 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import assert = require('assert');
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { HttpTransport } from '../httpTransport';
+
+suite('HTTP Transport', () => {
+
+	let server: Server;
+	let transport: HttpTransport;
+
+	setup(done => {
+		// answers like a runtime that only knows some endpoints
+		server = createServer((request, response) => {
+			switch (request.url) {
+				case '/Variable/Get': response.end('[{"name":"R1","value":"1"}]'); break;
+				case '/Debug/Load': response.statusCode = 400; response.end('{"error":"line 3: Unknown opcode"}'); break;
+				case '/Debug/Status': response.end('running'); break;
+				default: response.statusCode = 404; response.end('Not Found');
+			}
+		});
+		server.listen(0, 'localhost', () => {
+			transport = new HttpTransport('localhost', (server.address() as AddressInfo).port);
+			done();
+		});
+	});
+
+	teardown(done => {
+		transport.dispose();
+		server.close(() => done());
+	});
+
+	test('should report failed requests as errors of the request', async () => {
+		assert.deepStrictEqual(await transport.request('GET', 'Variable', 'Get'), [{ name: 'R1', value: '1' }]);
+		assert.deepStrictEqual(await transport.request('POST', 'Debug', 'Load'), { error: 'line 3: Unknown opcode' });
+		assert.deepStrictEqual(await transport.request('POST', 'Memory', 'Read'), { error: '404 Not Found' });
+		assert.deepStrictEqual(await transport.request('GET', 'Debug', 'Status'), { error: 'The runtime answered with something that is not JSON: running' });
+	});
+});
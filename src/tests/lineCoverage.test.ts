@@ -0,0 +1,24 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import assert = require('assert');
+import { formatJsonSummary, formatLcov, LineCoverage } from '../lineCoverage';
+
+suite('Line Coverage', () => {
+
+	test('should report instruction lines that did not execute', () => {
+		const coverage = new LineCoverage();
+
+		coverage.addLines([1, 2, 4, 5]);
+		coverage.hit(1);
+		coverage.hit(2);
+		coverage.hit(5);
+		coverage.hit(2);
+		const summary = coverage.summary('/work/test.misc');
+
+		assert.strictEqual(formatLcov(summary), 'TN:\nSF:/work/test.misc\nDA:1,1\nDA:2,2\nDA:4,0\nDA:5,1\nLF:4\nLH:3\nend_of_record\n');
+		assert.deepStrictEqual(JSON.parse(formatJsonSummary(summary)).total, { lines: { total: 4, covered: 3, skipped: 0, pct: 75 } });
+	});
+});
@@ -0,0 +1,48 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import assert = require('assert');
+import { evaluateExpression, ExpressionContext, formatValue } from '../miscExpression';
+
+suite('MISC Expressions', () => {
+
+	const context: ExpressionContext = {
+		registers: new Map([['R1', 6], ['R2', 0x20], ['SP', 0x3FE]]),
+		async readWord(address: number) {
+			return address === 0x20 ? 7 : address === 0x3FE ? 0xC : undefined;
+		}
+	};
+
+	async function evaluate(expression: string) {
+		const result = await evaluateExpression(expression, context);
+		return typeof result === 'string' ? result : formatValue(result.value, result.format);
+	}
+
+	test('should respect operator precedence', async () => {
+		assert.strictEqual(await evaluate('r1 + 2 * 3'), '12');
+		assert.strictEqual(await evaluate('(R1 + 2) * 3'), '24');
+		assert.strictEqual(await evaluate('R1 & 3 | 8'), '10');
+		assert.strictEqual(await evaluate('R1 == 6 && -R1 < 0'), '1');
+		assert.strictEqual(await evaluate('~0b1 & #F << 1'), '30');
+	});
+
+	test('should read memory words', async () => {
+		assert.strictEqual(await evaluate('[R2] + [#20]'), '14');
+		assert.strictEqual(await evaluate('[SP],h'), '#C');
+		assert.strictEqual(await evaluate('R2 ,b'), '0b100000');
+		assert.strictEqual(await evaluate('#FFFF - R1,s'), '-7');
+	});
+
+	test('should report errors', async () => {
+		assert.strictEqual(await evaluate('R9'), `Unknown register 'R9'`);
+		assert.strictEqual(await evaluate('[#22]'), 'Cannot read memory at #22');
+		assert.strictEqual(await evaluate('R1 / 0'), 'Division by zero');
+		assert.strictEqual(await evaluate('(R1'), `Missing ')' in '(R1'`);
+		assert.strictEqual(await evaluate('R1 +'), `Incomplete expression 'R1 +'`);
+		assert.strictEqual(await evaluate('R1 R2'), `Unexpected 'R2' in 'R1 R2'`);
+		assert.strictEqual(await evaluate('#'), `Missing hex digits after '#' in '#'`);
+		assert.strictEqual(await evaluate('R1 + #G'), `Missing hex digits after '#' in 'R1 + #G'`);
+	});
+});
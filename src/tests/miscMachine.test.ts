@@ -0,0 +1,132 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import assert = require('assert');
+import { assemble, encodeInstruction, MiscMachine, parseValue } from '../miscMachine';
+
+suite('MISC Machine', () => {
+
+	suite('assemble', () => {
+
+		test('should assign 4 byte addresses to instructions', () => {
+			const program = assemble('MOV R1 #1\n\nloop: SUB R1 #1 ; count down\nBZ R1 loop\nHALT');
+
+			assert.deepStrictEqual(program.errors, []);
+			assert.deepStrictEqual(program.instructions.map(i => [i.opcode, i.address, i.line]), [
+				['MOV', 0, 0], ['SUB', 4, 2], ['BZ', 8, 3], ['HALT', 12, 4]
+			]);
+			assert.strictEqual(program.instructions[2].operands[1].value, 4);
+		});
+
+		test('should report unknown opcodes and bad operands', () => {
+			const program = assemble('MOVE R1 #1\nMOV R1 #G\nBZ #1 #2\nCALL nowhere');
+
+			assert.deepStrictEqual(program.errors.map(e => e.line), [0, 1, 2, 3]);
+			assert.deepStrictEqual(program.errors.map(e => [e.column, e.length]), [[0, 4], [7, 2], [3, 2], [5, 7]]);
+		});
+
+		test('should report jump targets outside of the program', () => {
+			const program = assemble('start: BZ R1 #8\nCALL #2\nBZ R1 start');
+
+			assert.deepStrictEqual(program.errors.map(e => [e.line, e.column, e.message]), [
+				[1, 5, `Jump target '#2' is not the address of an instruction`]
+			]);
+			assert.deepStrictEqual(assemble('CALL #4').errors.map(e => e.message), [`Jump target '#4' is past the end of the program`]);
+			assert.deepStrictEqual(program.labelDefinitions, [{ name: 'start', address: 0, line: 0, column: 0 }]);
+		});
+	});
+
+	suite('encodeInstruction', () => {
+
+		test('should pack the form and the operand fields into 4 bytes', () => {
+			const program = assemble('MOV R1 #1\nMOV [#3FE] #FFFF\nHALT');
+
+			assert.deepStrictEqual(program.instructions.map(encodeInstruction), [
+				[0x08, 0x80, 0x00, 0x80],
+				[0x2F, 0xFD, 0xFF, 0xFE],
+				[0xA0, 0x00, 0x00, 0x00]
+			]);
+		});
+	});
+
+	suite('step', () => {
+
+		test('should run to HALT', () => {
+			const output: string[] = [];
+			const machine = new MiscMachine(assemble('MOV R1 #3\nSUB R1 #1\nULD R1\nBZ R1 #14\nCALL #4\nHALT'), text => output.push(text));
+
+			let result = machine.step();
+			while (result.kind === 'ok') {
+				result = machine.step();
+			}
+
+			assert.strictEqual(result.kind, 'halt');
+			assert.deepStrictEqual(output, ['R1 = 2', 'R1 = 1', 'R1 = 0']);
+			assert.strictEqual(machine.callStack.length, 2);
+		});
+
+		test('should record register and memory accesses', () => {
+			const machine = new MiscMachine(assemble('MOV R1 #20\nMOV [R1] #7\nCALL #C\nHALT'));
+
+			machine.step();
+			machine.step();
+			assert.deepStrictEqual(machine.accesses, [
+				{ target: 'R1', type: 'read', oldValue: 0x20, newValue: 0x20 },
+				{ target: '#20', type: 'write', oldValue: 0, newValue: 7 }
+			]);
+
+			machine.step();
+			assert.strictEqual(machine.sp, 0x3FE);
+			assert.strictEqual(machine.readWord(0x3FE), 0xC);
+		});
+
+		test('should set the flags on ADD and SUB', () => {
+			const machine = new MiscMachine(assemble('MOV R1 #FFFF\nADD R1 #1\nSUB R1 #1'));
+
+			machine.step();
+			machine.step();
+			assert.deepStrictEqual(machine.flags, { zero: true, carry: true, negative: false });
+
+			machine.step();
+			assert.strictEqual(machine.registers[1], 0xFFFF);
+			assert.deepStrictEqual(machine.flags, { zero: false, carry: true, negative: true });
+		});
+
+		test('should step back within the history limit', () => {
+			const machine = new MiscMachine(assemble('MOV R1 #20\nMOV [R1] #7\nCALL #10\nHALT\nRET'));
+			machine.setHistoryLimit(3);
+
+			for (let i = 0; i < 4; i++) {
+				machine.step();
+			}
+			assert.deepStrictEqual([machine.pc, machine.callStack.length, machine.sp], [0xC, 0, 0x400]);
+
+			assert.ok(machine.stepBack());
+			assert.deepStrictEqual([machine.pc, machine.callStack.length, machine.sp], [0x10, 1, 0x3FE]);
+			assert.ok(machine.stepBack());
+			assert.ok(machine.stepBack());
+			assert.deepStrictEqual([machine.pc, machine.readWord(0x20)], [4, 0]);
+			assert.ok(!machine.stepBack());
+			assert.strictEqual(machine.registers[1], 0x20);
+		});
+
+		test('should fault on RET without CALL', () => {
+			const machine = new MiscMachine(assemble('RET'));
+
+			assert.strictEqual(machine.step().kind, 'fault');
+		});
+	});
+
+	suite('parseValue', () => {
+
+		test('should parse decimal, hex and binary values', () => {
+			assert.deepStrictEqual(['42', '#2a', '0b101010', ' 65535 '].map(parseValue), [42, 42, 42, 65535]);
+		});
+
+		test('should reject invalid and out of range values', () => {
+			assert.deepStrictEqual(['', '-1', '#G', '0b2', '65536', '#10000'].map(v => typeof parseValue(v)), Array(6).fill('string'));
+		});
+	});
+});
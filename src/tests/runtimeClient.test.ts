@@ -0,0 +1,162 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import assert = require('assert');
+import { EmbeddedRuntime } from '../embeddedRuntime';
+import { InMemoryTransport } from '../inMemoryTransport';
+import { MEMORY_SIZE } from '../miscMachine';
+import { RuntimeClient } from '../runtimeClient';
+import { RuntimeCancellation, RuntimeNotification } from '../runtimeTransport';
+
+suite('Runtime Client', () => {
+
+	const fileAccessor = {
+		async readFile(path: string): Promise<string> {
+			return 'HALT';
+		}
+	};
+
+	let requests: string[];
+	let notify: (notification: RuntimeNotification) => void;
+	let client: RuntimeClient;
+
+	setup(() => {
+		requests = [];
+		client = new RuntimeClient(fileAccessor);
+		client.setTransport(new InMemoryTransport(n => {
+			notify = n;
+			return {
+				async handle(method, controller, endpoint, body) {
+					requests.push(`${method} ${controller}/${endpoint} ${JSON.stringify(body || {})}`);
+					return endpoint === 'Start' ? { event: 'stopOnEntry' } : {};
+				}
+			};
+		}));
+	});
+
+	teardown(() => client.disconnect());
+
+	test('should load and start the program with capitalized keys', async () => {
+		const stopped = new Promise(resolve => client.once('stopOnEntry', resolve));
+
+		const response = await client.start('/program.misc', true);
+		await stopped;
+
+		assert.strictEqual(response.event, 'stopOnEntry');
+		assert.deepStrictEqual(requests, [
+			'POST Debug/Load {"File":"HALT"}',
+			'POST Debug/Start {"StopOnEntry":true}'
+		]);
+	});
+
+	test('should only start a program that loaded', async () => {
+		const sent: string[] = [];
+		let answerLoad = (answer: any) => {};
+		const loading = new RuntimeClient(fileAccessor);
+		loading.setTransport(new InMemoryTransport(() => ({
+			handle: (method, controller, endpoint) => {
+				sent.push(endpoint);
+				return endpoint === 'Load' ? new Promise(resolve => answerLoad = resolve) : Promise.resolve({});
+			}
+		})));
+
+		const started = loading.start('/program.misc');
+		await new Promise(resolve => setTimeout(resolve, 10));
+		assert.deepStrictEqual(sent, ['Load']);
+
+		answerLoad({ error: 'Unknown opcode' });
+		assert.strictEqual((await started).error?.kind, 'load');
+		assert.deepStrictEqual(sent, ['Load']);
+	});
+
+	test('should separate load errors from runtimes that cannot be reached', async () => {
+		const failingClient = (handle: (endpoint: string) => Promise<any>) => {
+			const failing = new RuntimeClient(fileAccessor);
+			failing.setTransport(new InMemoryTransport(() => ({ handle: (method, controller, endpoint) => handle(endpoint) })));
+			return failing;
+		};
+
+		const loadFailure = await failingClient(async endpoint => endpoint === 'Load' ? { error: 'line 3: Unknown opcode' } : {}).start('/program.misc');
+		assert.deepStrictEqual(loadFailure.error, { kind: 'load', message: 'Unknown opcode', line: 2, column: undefined });
+
+		const refused = Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+		const transportFailure = await failingClient(() => Promise.reject(refused)).start('/program.misc');
+		assert.strictEqual(transportFailure.error?.kind, 'transport');
+		assert.ok(transportFailure.error?.message.startsWith('Cannot connect to the MISC runtime at in-memory'));
+
+		const unreadable = new RuntimeClient({ readFile: path => Promise.reject(new Error(`ENOENT: no such file or directory, open '${path}'`)) });
+		const readFailure = await unreadable.start('/missing.misc');
+		assert.deepStrictEqual(readFailure.error, { kind: 'load', message: `ENOENT: no such file or directory, open '/missing.misc'` });
+	});
+
+	test('should translate notifications into events', async () => {
+		const stopped = new Promise(resolve => client.once('stopOnBreakpoint', resolve));
+		const ended = new Promise(resolve => client.once('end', resolve));
+
+		await client.continue();
+		notify({ reason: 'breakpoint' });
+		await stopped;
+		notify({ reason: 'halt' });
+		await ended;
+
+		assert.deepStrictEqual(requests, ['PATCH Debug/Continue {}']);
+	});
+
+	test('should report a runtime that exits before the program starts without ending the session', async () => {
+		const notReady = new InMemoryTransport(() => ({ handle: async () => ({}) }));
+		notReady.isReady = () => Promise.resolve(false);
+		const launching = new RuntimeClient(fileAccessor);
+		launching.setTransport(notReady);
+
+		let ended = false;
+		launching.on('end', () => ended = true);
+
+		const launchError = await launching.launchRuntime({ executable: process.execPath, args: ['-e', 'process.exit(3)'] }, { attempts: 50, delay: 20, maxDelay: 20 });
+		const started = await launching.start('/program.misc');
+
+		assert.strictEqual(launchError, 'runtime exited with code 3');
+		assert.ok(started.error?.message.startsWith('The MISC runtime exited with code 3'));
+		assert.ok(!ended);
+	});
+
+	test('should report the bytes past the end of memory as unreadable', async () => {
+		const embedded = new RuntimeClient(fileAccessor);
+		embedded.setTransport(new InMemoryTransport(n => new EmbeddedRuntime(n)));
+		await embedded.start('/program.misc', true);
+
+		const end = await embedded.readMemory(MEMORY_SIZE - 2, 8);
+		const past = await embedded.readMemory(MEMORY_SIZE + 4, 8);
+		embedded.disconnect();
+
+		assert.deepStrictEqual([end.address, Buffer.from(end.data, 'base64').length, end.unreadableBytes], [MEMORY_SIZE - 2, 2, 6]);
+		assert.deepStrictEqual([past.address, past.data, past.unreadableBytes], [MEMORY_SIZE, '', 8]);
+	});
+
+	test('should give up on requests that time out or are cancelled', async () => {
+		const hanging = new RuntimeClient(fileAccessor);
+		hanging.setTransport(new InMemoryTransport(() => ({ handle: () => new Promise(() => undefined) })));
+		hanging.requestTimeout = 10;
+
+		const timedOut = await hanging.start('/program.misc');
+		assert.strictEqual(timedOut.error?.kind, 'transport');
+		assert.ok(timedOut.error?.message.includes(`did not answer 'Debug/Load' within 10 ms`));
+
+		const silent = new RuntimeClient(fileAccessor);
+		const silentTransport = new InMemoryTransport(() => ({ handle: async () => ({}) }));
+		silentTransport.connect = () => new Promise(() => undefined);
+		silent.setTransport(silentTransport);
+		silent.requestTimeout = 10;
+
+		const eventsTimedOut = await silent.start('/program.misc');
+		assert.strictEqual(eventsTimedOut.error?.kind, 'transport');
+		assert.ok(eventsTimedOut.error?.message.includes(`did not answer 'Debug/Events' within 10 ms`));
+
+		hanging.requestTimeout = 0;
+		const cancellation = new RuntimeCancellation();
+		const variables = hanging.getVariables(cancellation);
+		cancellation.cancel();
+		assert.deepStrictEqual(await variables, []);
+	});
+});
@@ -0,0 +1,47 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import assert = require('assert');
+import { assemble } from '../miscMachine';
+import { SourceBreakpoints } from '../sourceBreakpoints';
+
+suite('Source Breakpoints', () => {
+
+	const program = assemble('MOV R1 #3\n\nloop: ; count down\n  SUB R1 #1\nBZ R1 loop\nHALT\n; the end');
+
+	test('should move breakpoints on lines without an instruction to the next instruction', () => {
+		const breakpoints = new SourceBreakpoints();
+
+		const { breakpoints: placed, added } = breakpoints.set('/test.misc', [{ line: 1 }, { line: 2 }, { line: 4 }, { line: 6 }], program);
+
+		assert.deepStrictEqual(placed.map(b => [b.requestedLine, b.line, b.verified]), [[1, 3, false], [2, 3, false], [4, 4, false], [6, 5, false]]);
+		assert.deepStrictEqual(added, [3, 4, 5]);
+	});
+
+	test('should keep ids and hit counts and only report changed lines', () => {
+		const breakpoints = new SourceBreakpoints();
+		const first = breakpoints.set('/test.misc', [{ line: 0 }, { line: 3, condition: 'R1 == 1' }], program).breakpoints;
+		first[1].conditions!.hits = 2;
+
+		const second = breakpoints.set('/test.misc', [{ line: 3, condition: 'R1 == 1' }, { line: 4 }], program);
+
+		assert.deepStrictEqual(second.breakpoints.map(b => b.id), [first[1].id, first[1].id + 1]);
+		assert.strictEqual(second.breakpoints[0].conditions!.hits, 2);
+		assert.deepStrictEqual([second.added, second.removed], [[4], [0]]);
+		assert.deepStrictEqual(breakpoints.set('/other.misc', [{ line: 0 }], program).breakpoints[0].id, first[1].id + 2);
+	});
+
+	test('should verify the breakpoints of the loaded source only', () => {
+		const breakpoints = new SourceBreakpoints();
+		breakpoints.set('/test.misc', [{ line: 1 }, { line: 3, logMessage: 'R1 is {R1}' }], program);
+		breakpoints.set('/other.misc', [{ line: 0 }], program);
+
+		const changed = breakpoints.load('/test.misc', program);
+
+		assert.deepStrictEqual(changed.map(b => [b.line, b.verified]), [[3, true], [3, true]]);
+		assert.deepStrictEqual(breakpoints.get('/other.misc').map(b => b.verified), [false]);
+		assert.deepStrictEqual(Array.from(breakpoints.conditions('/test.misc')), [[3, [{ hits: 0 }, { condition: undefined, hitCondition: undefined, logMessage: 'R1 is {R1}', hits: 0 }]]]);
+	});
+});
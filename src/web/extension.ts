@@ -4,9 +4,19 @@
 
 import * as vscode from 'vscode';
 import { activateDebugger } from '../activateDebugger';
+import { activateLanguageFeatures } from '../languageFeatures';
 
 export function activate(context: vscode.ExtensionContext) {
 	activateDebugger(context);
+	activateLanguageFeatures(context);
+
+	// there is no runtime server to talk to from the browser, so programs always run on the embedded emulator
+	context.subscriptions.push(vscode.debug.registerDebugConfigurationProvider('mock', {
+		resolveDebugConfiguration(folder: vscode.WorkspaceFolder | undefined, config: vscode.DebugConfiguration): vscode.ProviderResult<vscode.DebugConfiguration> {
+			config.runtime = 'embedded';
+			return config;
+		}
+	}));
 }
 
 export function deactivate() {